@@ -1,16 +1,20 @@
 
-import React, { useState, useCallback, useEffect } from 'react';
+import React, { useState, useCallback, useEffect, useRef } from 'react';
 import { Header } from './components/Header';
 import { DiffDisplay } from './components/DiffDisplay';
 import { SummaryPanel } from './components/SummaryPanel';
-import { sendMessageToAI } from './services/aiService';
-import { TrashIcon, SparklesIcon, UserCircleIcon, QuestionMarkCircleIcon, PlusIcon } from '@heroicons/react/24/outline';
-import { computeDiff } from './utils/diffEngine';
+import { sendMessageToAI, recommendChanges } from './services/aiService';
+import { getProvider } from './services/providers';
+import { TrashIcon, SparklesIcon, UserCircleIcon, QuestionMarkCircleIcon, PlusIcon, Square3Stack3DIcon, QueueListIcon } from '@heroicons/react/24/outline';
+import { useDiffWorker } from './hooks/useDiffWorker';
 import { InputHighlighter } from './components/InputHighlighter';
 import { ApiKeyModal } from './components/ApiKeyModal';
 import { HistoryModal } from './components/HistoryModal';
 import { PersonaCreatorModal } from './components/PersonaCreatorModal';
-import { StoredKey, PersonaDefinition, ChatMessage, HistoryItem } from './types';
+import { IgnoreRulesModal } from './components/IgnoreRulesModal';
+import { RevisionTimeline } from './components/RevisionTimeline';
+import { DiffStatsBar } from './components/DiffStatsBar';
+import { StoredKey, PersonaDefinition, ChatMessage, HistoryItem, DiffOptions, IgnoreRuleSet, Revision, ReviewChange, ChangeLocation } from './types';
 
 const DEFAULT_ORIGINAL = `Google Gemini is a family of multimodal AI models developed by Google DeepMind. It is designed to understand and generate text, code, and images seamlessly.`;
 const DEFAULT_MODIFIED = `Google Gemini is a powerful family of multimodal AI models created by Google DeepMind. It is engineered to interpret and generate text, code, audio, and images with high accuracy.`;
@@ -22,13 +26,40 @@ const DEFAULT_PERSONAS: PersonaDefinition[] = [
   { id: 'reviewer', name: 'Peer Reviewer', description: "You are a critical peer reviewer. Look for gaps in argumentation, clarity of hypothesis, and strength of evidence. Evaluate if the modified text addresses potential reviewer concerns." },
 ];
 
+const MAX_HISTORY_ITEMS = 50;
+
+// Stores as much of the history as fits, dropping the oldest items when storage is full
+const persistHistory = (items: HistoryItem[]) => {
+  for (let count = items.length; count > 0; count--) {
+    try {
+      localStorage.setItem('gemini_diff_history', JSON.stringify(items.slice(0, count)));
+      return;
+    } catch (e) {
+      console.warn(`Failed to store ${count} history items`, e);
+    }
+  }
+};
+
 const App: React.FC = () => {
   // --- TEXT STATE ---
   const [originalText, setOriginalText] = useState(DEFAULT_ORIGINAL);
   const [modifiedText, setModifiedText] = useState(DEFAULT_MODIFIED);
+
+  // Three-way mode: original and modified become edits A and B of a common base
+  const [isThreeWay, setIsThreeWay] = useState(false);
+  const [baseText, setBaseText] = useState('');
+
+  // Revision stack: any two revisions are loaded into the Original and Modified panels
+  const [revisions, setRevisions] = useState<Revision[]>([]);
+  const [revisionPair, setRevisionPair] = useState<[number, number]>([0, 1]);
   
   // --- CONFIG STATE ---
   const [selectedModel, setSelectedModel] = useState<string>('gemini-2.5-flash');
+  const [diffOptions, setDiffOptions] = useState<DiffOptions>({ granularity: 'word', cleanup: 'semantic', detectMoves: true });
+
+  // Ignore Rule State
+  const [ignoreRuleSets, setIgnoreRuleSets] = useState<IgnoreRuleSet[]>([]);
+  const [isIgnoreRulesOpen, setIsIgnoreRulesOpen] = useState(false);
   
   // Persona State
   const [availablePersonas, setAvailablePersonas] = useState<PersonaDefinition[]>(DEFAULT_PERSONAS);
@@ -37,6 +68,9 @@ const App: React.FC = () => {
 
   const [question, setQuestion] = useState<string>('');
   
+  // Change navigation in the diff view places the input carets on the change
+  const [changeFocus, setChangeFocus] = useState<{ location: ChangeLocation; key: number } | null>(null);
+
   // --- API KEY STATE ---
   const [apiKeys, setApiKeys] = useState<StoredKey[]>([]);
   const [isKeyModalOpen, setIsKeyModalOpen] = useState(false);
@@ -48,6 +82,11 @@ const App: React.FC = () => {
   // --- AI/CHAT STATE ---
   const [messages, setMessages] = useState<ChatMessage[]>([]);
   const [isAnalyzing, setIsAnalyzing] = useState(false);
+  // The reply being streamed in, and how to stop it
+  const [streamingId, setStreamingId] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  // Set while the conversation is about every revision rather than the selected pair
+  const [analyzedRevisions, setAnalyzedRevisions] = useState<Revision[] | null>(null);
   
   // Load Data on Mount
   useEffect(() => {
@@ -86,6 +125,15 @@ const App: React.FC = () => {
         }
       } catch (e) { console.error('Failed to parse custom personas', e); }
     }
+
+    // Ignore Rule Sets
+    const storedRulesJson = localStorage.getItem('gemini_ignore_rules');
+    if (storedRulesJson) {
+      try {
+        const parsed = JSON.parse(storedRulesJson);
+        if (Array.isArray(parsed)) setIgnoreRuleSets(parsed);
+      } catch (e) { console.error('Failed to parse ignore rules', e); }
+    }
   }, []);
 
   // Persist Keys
@@ -96,9 +144,9 @@ const App: React.FC = () => {
 
   // Persist History
   const saveHistory = (newItem: HistoryItem) => {
-    const updatedHistory = [newItem, ...history].slice(0, 50);
+    const updatedHistory = [newItem, ...history].slice(0, MAX_HISTORY_ITEMS);
     setHistory(updatedHistory);
-    localStorage.setItem('gemini_diff_history', JSON.stringify(updatedHistory));
+    persistHistory(updatedHistory);
   };
 
   const handleClearHistory = () => {
@@ -109,7 +157,7 @@ const App: React.FC = () => {
   const handleDeleteHistoryItem = (id: string) => {
     const updated = history.filter(h => h.id !== id);
     setHistory(updated);
-    localStorage.setItem('gemini_diff_history', JSON.stringify(updated));
+    persistHistory(updated);
   };
 
   // Handle New Persona Creation
@@ -123,26 +171,117 @@ const App: React.FC = () => {
     localStorage.setItem('gemini_custom_personas', JSON.stringify(customOnes));
   };
 
+  // Persist Ignore Rule Sets
+  const handleUpdateIgnoreRuleSets = (newRuleSets: IgnoreRuleSet[]) => {
+    setIgnoreRuleSets(newRuleSets);
+    localStorage.setItem('gemini_ignore_rules', JSON.stringify(newRuleSets));
+  };
+
   // Get Active Data
   const activeKey = apiKeys.find(k => k.isActive);
   const activePersona = availablePersonas.find(p => p.id === selectedPersonaId) || DEFAULT_PERSONAS[0];
 
-  // Pre-calculate diffs
-  const diffParts = React.useMemo(() => computeDiff(originalText, modifiedText), [originalText, modifiedText]);
+  // Rules from every enabled set apply to the diff
+  const activeIgnoreRules = React.useMemo(
+    () => ignoreRuleSets.filter(s => s.isEnabled).flatMap(s => s.rules),
+    [ignoreRuleSets]
+  );
+  const effectiveDiffOptions = React.useMemo(
+    () => ({ ...diffOptions, ignoreRules: activeIgnoreRules }),
+    [diffOptions, activeIgnoreRules]
+  );
+
+  // Diffs are computed off the main thread so typing stays responsive.
+  // In three-way mode each edit is highlighted against the base
+  const { diffParts, diffStats, diff3Chunks, partsA, partsB, isComputing: isDiffComputing, error: diffError } = useDiffWorker(
+    originalText,
+    modifiedText,
+    effectiveDiffOptions,
+    isThreeWay ? baseText : undefined
+  );
   const hasContent = originalText.length > 0 && modifiedText.length > 0;
+  const analysisBase = isThreeWay ? baseText : undefined;
+
+  const handleToggleThreeWay = (enabled: boolean) => {
+    // Start the base from the current original so A begins as an unedited copy
+    if (enabled && !baseText) setBaseText(originalText);
+    setIsThreeWay(enabled);
+  };
 
-  // When switching keys, reset model selection if invalid for new provider?
+  // When switching keys, fall back to the provider's default model if it does not offer the selected one.
+  // Providers that discover models have the Header pick one once the list arrives
   useEffect(() => {
     if (!activeKey) return;
-    // Auto-switch default model based on provider
-    if (activeKey.provider === 'openai' && !selectedModel.startsWith('gpt')) setSelectedModel('gpt-4o');
-    if (activeKey.provider === 'deepseek' && !selectedModel.startsWith('deepseek')) setSelectedModel('deepseek-chat');
-    if (activeKey.provider === 'google' && !selectedModel.startsWith('gemini')) setSelectedModel('gemini-2.5-flash');
-  }, [activeKey?.provider]); 
+    const provider = getProvider(activeKey.provider);
+    if (provider.capabilities.discoversModels) return;
+    if (!provider.models.some(m => m.id === selectedModel)) setSelectedModel(provider.defaults.model);
+  }, [activeKey?.provider]);
+  // A local server may offer no model to pick
+  const hasModel = selectedModel !== '';
+
+  // --- REVISIONS ---
+
+  const createRevision = (text: string, label: string): Revision => ({
+    id: crypto.randomUUID(),
+    label,
+    text,
+    timestamp: Date.now()
+  });
+
+  const handleSelectRevisionPair = (from: number, to: number, list: Revision[] = revisions) => {
+    setRevisionPair([from, to]);
+    setOriginalText(list[from].text);
+    setModifiedText(list[to].text);
+  };
+
+  // The current texts become the first two drafts; each later draft starts as a copy of the latest
+  const handleAddRevision = () => {
+    if (revisions.length === 0) {
+      const initial = [createRevision(originalText, 'Draft 1'), createRevision(modifiedText, 'Draft 2')];
+      setRevisions(initial);
+      handleSelectRevisionPair(0, 1, initial);
+      return;
+    }
+    const latest = revisions[revisions.length - 1];
+    const updated = [...revisions, createRevision(latest.text, `Draft ${revisions.length + 1}`)];
+    setRevisions(updated);
+    handleSelectRevisionPair(revisions.length - 1, revisions.length, updated);
+  };
+
+  const handleDeleteRevision = (index: number) => {
+    const updated = revisions.filter((_, i) => i !== index);
+    if (updated.length < 2) {
+      setRevisions([]);
+      return;
+    }
+    setRevisions(updated);
+    const reindex = (i: number) => Math.min(i > index ? i - 1 : i, updated.length - 1);
+    let [from, to] = revisionPair.map(reindex);
+    if (from === to) {
+      from = Math.max(0, to - 1);
+      to = from + 1;
+    }
+    handleSelectRevisionPair(from, to, updated);
+  };
+
+  // While revisions are tracked, editing a panel edits the revision shown in it
+  const updateRevisionText = (index: number, text: string) => {
+    setRevisions(prev => prev.map((r, i) => (i === index ? { ...r, text } : r)));
+  };
+
+  const handleOriginalChange = (text: string) => {
+    setOriginalText(text);
+    if (revisions.length > 0) updateRevisionText(revisionPair[0], text);
+  };
+
+  const handleModifiedChange = (text: string) => {
+    setModifiedText(text);
+    if (revisions.length > 0) updateRevisionText(revisionPair[1], text);
+  };
 
   // --- ACTIONS ---
 
-  const handleStartAnalysis = useCallback(async () => {
+  const runAnalysis = useCallback(async (revisionSet?: Revision[]) => {
     if (!activeKey) {
       setIsKeyModalOpen(true);
       return;
@@ -150,8 +289,13 @@ const App: React.FC = () => {
 
     if (!originalText.trim() || !modifiedText.trim()) return;
     
+    const controller = new AbortController();
+    const replyId = crypto.randomUUID();
+    abortRef.current = controller;
     setIsAnalyzing(true);
+    setStreamingId(replyId);
     setMessages([]); // Clear previous chat
+    setAnalyzedRevisions(revisionSet || null);
     
     try {
       const responseText = await sendMessageToAI(
@@ -161,14 +305,27 @@ const App: React.FC = () => {
         originalText,
         modifiedText,
         activePersona.description,
-        question
+        question,
+        analysisBase,
+        revisionSet,
+        {
+          signal: controller.signal,
+          onText: text => setMessages([{ id: replyId, role: 'model', text, timestamp: Date.now() }])
+        }
       );
+
+      // Stopped before anything arrived: nothing to keep
+      if (controller.signal.aborted && !responseText) {
+        setMessages([]);
+        return;
+      }
       
       const initialMessage: ChatMessage = {
-        id: crypto.randomUUID(),
+        id: replyId,
         role: 'model',
         text: responseText,
-        timestamp: Date.now()
+        timestamp: Date.now(),
+        isTruncated: controller.signal.aborted || undefined
       };
       setMessages([initialMessage]);
 
@@ -178,6 +335,11 @@ const App: React.FC = () => {
         timestamp: Date.now(),
         originalText,
         modifiedText,
+        baseText: analysisBase,
+        revisions: revisions.length > 0 ? revisions : undefined,
+        revisionPair: revisions.length > 0 ? revisionPair : undefined,
+        summarizesRevisions: revisionSet ? true : undefined,
+        stats: !isThreeWay && diffStats ? diffStats : undefined,
         persona: activePersona,
         question,
         messages: [initialMessage]
@@ -185,7 +347,8 @@ const App: React.FC = () => {
       saveHistory(historyItem);
 
     } catch (error: any) {
-      setMessages([{
+      // Text that streamed in before the failure stays, marked as cut off
+      setMessages(prev => [...prev.map(m => ({ ...m, isTruncated: true })), {
         id: crypto.randomUUID(),
         role: 'model',
         text: `Error: ${error.message || "Failed to start analysis."}`,
@@ -193,13 +356,22 @@ const App: React.FC = () => {
         isError: true
       }]);
     } finally {
+      abortRef.current = null;
+      setStreamingId(null);
       setIsAnalyzing(false);
     }
-  }, [originalText, modifiedText, selectedModel, activeKey, activePersona, question, history]);
+  }, [originalText, modifiedText, analysisBase, revisions, revisionPair, isThreeWay, diffStats, selectedModel, activeKey, activePersona, question, history]);
+
+  const handleStartAnalysis = () => runAnalysis();
 
   const handleLoadHistory = async (item: HistoryItem) => {
     setOriginalText(item.originalText);
     setModifiedText(item.modifiedText);
+    setIsThreeWay(item.baseText !== undefined);
+    setBaseText(item.baseText ?? '');
+    setRevisions(item.revisions ?? []);
+    setRevisionPair(item.revisionPair ?? [0, 1]);
+    setAnalyzedRevisions(item.summarizesRevisions && item.revisions ? item.revisions : null);
     
     // Restore Persona
     if (item.persona.isCustom) {
@@ -222,8 +394,12 @@ const App: React.FC = () => {
 
     const userMsg: ChatMessage = { id: crypto.randomUUID(), role: 'user', text, timestamp: Date.now() };
     const updatedMessages = [...messages, userMsg];
+    const controller = new AbortController();
+    const replyId = crypto.randomUUID();
+    abortRef.current = controller;
     setMessages(updatedMessages);
     setIsAnalyzing(true);
+    setStreamingId(replyId);
 
     try {
       const responseText = await sendMessageToAI(
@@ -233,22 +409,54 @@ const App: React.FC = () => {
         originalText, 
         modifiedText, 
         activePersona.description, 
-        question
+        question,
+        analysisBase,
+        analyzedRevisions ?? undefined,
+        {
+          signal: controller.signal,
+          onText: text => setMessages([...updatedMessages, { id: replyId, role: 'model', text, timestamp: Date.now() }])
+        }
       );
 
-      const modelMsg: ChatMessage = { id: crypto.randomUUID(), role: 'model', text: responseText, timestamp: Date.now() };
+      if (controller.signal.aborted && !responseText) {
+        setMessages(updatedMessages);
+        return;
+      }
+
+      const modelMsg: ChatMessage = {
+        id: replyId,
+        role: 'model',
+        text: responseText,
+        timestamp: Date.now(),
+        isTruncated: controller.signal.aborted || undefined
+      };
       setMessages([...updatedMessages, modelMsg]);
     } catch (error: any) {
       const errorMsg: ChatMessage = { id: crypto.randomUUID(), role: 'model', text: `Error: ${error.message}`, timestamp: Date.now(), isError: true };
-      setMessages(prev => [...prev, errorMsg]);
+      setMessages(prev => [...prev.map(m => (m.id === replyId ? { ...m, isTruncated: true } : m)), errorMsg]);
     } finally {
+      abortRef.current = null;
+      setStreamingId(null);
       setIsAnalyzing(false);
     }
-  }, [messages, activeKey, selectedModel, originalText, modifiedText, activePersona, question]);
+  }, [messages, activeKey, selectedModel, originalText, modifiedText, analysisBase, analyzedRevisions, activePersona, question]);
+
+  // Ends the reply being streamed; the text received so far is kept
+  const handleStopAnalysis = () => abortRef.current?.abort();
+
+  const handleRecommendChanges = async (changes: ReviewChange[]): Promise<number[]> => {
+    if (!activeKey) {
+      setIsKeyModalOpen(true);
+      return [];
+    }
+    return recommendChanges(activeKey, selectedModel, changes, activePersona.description, question);
+  };
 
   const handleClear = () => {
     setOriginalText("");
     setModifiedText("");
+    setBaseText("");
+    setRevisions([]);
     setMessages([]);
     setQuestion("");
   };
@@ -260,7 +468,7 @@ const App: React.FC = () => {
         onModelChange={setSelectedModel}
         onOpenSettings={() => setIsKeyModalOpen(true)} 
         onOpenHistory={() => setIsHistoryOpen(true)}
-        activeProvider={activeKey?.provider}
+        activeKey={activeKey}
       />
 
       <ApiKeyModal 
@@ -287,17 +495,57 @@ const App: React.FC = () => {
         modelName={selectedModel}
       />
 
+      <IgnoreRulesModal
+        isOpen={isIgnoreRulesOpen}
+        onClose={() => setIsIgnoreRulesOpen(false)}
+        ruleSets={ignoreRuleSets}
+        setRuleSets={handleUpdateIgnoreRuleSets}
+      />
+
       {/* ... (Rest of Layout is identical) ... */}
       <div className="flex-grow flex flex-col lg:flex-row overflow-hidden">
         
         {/* LEFT PANEL: Review Mode & Chat */}
         <div className="flex-1 overflow-y-auto p-4 lg:p-6 custom-scrollbar bg-slate-50/50">
           <div className="max-w-5xl mx-auto space-y-6 pb-10 h-full flex flex-col">
+            {revisions.length > 1 && (
+              <div className="flex-none">
+                <RevisionTimeline
+                  revisions={revisions}
+                  pair={revisionPair}
+                  onSelectPair={(from, to) => handleSelectRevisionPair(from, to)}
+                  onAddRevision={handleAddRevision}
+                  onDeleteRevision={handleDeleteRevision}
+                  onClose={() => setRevisions([])}
+                  onSummarize={() => runAnalysis(revisions)}
+                  isAnalyzing={isAnalyzing}
+                  diffOptions={effectiveDiffOptions}
+                />
+              </div>
+            )}
+
+            {hasContent && diffStats && !isThreeWay && (
+              <div className="flex-none">
+                <DiffStatsBar stats={diffStats} />
+              </div>
+            )}
+
             <div className="flex-none">
               <DiffDisplay 
                 originalText={originalText} 
                 modifiedText={modifiedText} 
                 diffParts={diffParts}
+                isComputing={isDiffComputing}
+                error={diffError}
+                diffOptions={diffOptions}
+                onDiffOptionsChange={setDiffOptions}
+                activeIgnoreRuleCount={activeIgnoreRules.length}
+                onOpenIgnoreRules={() => setIsIgnoreRulesOpen(true)}
+                mergeChunks={diff3Chunks}
+                onApplyResult={handleModifiedChange}
+                onRecommendChanges={handleRecommendChanges}
+                reviewPersonaName={activePersona.name}
+                onNavigateChange={(location) => setChangeFocus({ location, key: Date.now() })}
               />
             </div>
 
@@ -306,10 +554,13 @@ const App: React.FC = () => {
                  <SummaryPanel 
                   messages={messages}
                   isLoading={isAnalyzing} 
+                  streamingId={streamingId}
                   onGenerate={handleStartAnalysis}
                   onSendMessage={handleSendMessage}
+                  onStop={handleStopAnalysis}
                   hasContent={hasContent}
                   hasKey={!!activeKey}
+                  hasModel={hasModel}
                 />
               </div>
             )}
@@ -377,6 +628,38 @@ const App: React.FC = () => {
                  className="w-full px-3 py-2 text-sm border border-slate-200 rounded-lg focus:ring-1 focus:ring-indigo-500 focus:outline-none"
                />
             </div>
+
+            {/* Comparison Mode */}
+            <div>
+              <div className="flex items-center gap-2 text-xs font-bold text-slate-500 uppercase tracking-wider mb-2">
+                <Square3Stack3DIcon className="w-4 h-4" /> Comparison
+              </div>
+              <div className="flex bg-slate-200/60 p-1 rounded-lg">
+                {[false, true].map(threeWay => (
+                  <button
+                    key={String(threeWay)}
+                    onClick={() => handleToggleThreeWay(threeWay)}
+                    className={`flex-1 px-3 py-1.5 rounded-md text-xs font-medium transition-all ${
+                      isThreeWay === threeWay
+                        ? 'bg-white text-indigo-600 shadow-sm ring-1 ring-black/5'
+                        : 'text-slate-500 hover:text-slate-700'
+                    }`}
+                    title={threeWay ? 'Merge two independent edits of a common base' : 'Compare an original with a modified version'}
+                  >
+                    {threeWay ? 'Three-Way (Base + A + B)' : 'Two-Way'}
+                  </button>
+                ))}
+              </div>
+              {revisions.length === 0 && (
+                <button
+                  onClick={handleAddRevision}
+                  className="mt-2 text-xs flex items-center gap-1 text-indigo-600 font-medium hover:text-indigo-800"
+                  title="Keep a stack of drafts and compare any two of them"
+                >
+                  <QueueListIcon className="w-3 h-3" /> Track Revisions
+                </button>
+              )}
+            </div>
           </div>
 
           {/* Actions */}
@@ -384,7 +667,7 @@ const App: React.FC = () => {
              <button
                 type="button"
                 onClick={handleStartAnalysis}
-                disabled={!hasContent || isAnalyzing}
+                disabled={!hasContent || !hasModel || isAnalyzing}
                 className="flex-1 flex items-center justify-center gap-2 bg-indigo-600 hover:bg-indigo-700 disabled:bg-slate-300 disabled:cursor-not-allowed text-white px-4 py-2.5 rounded-lg font-medium shadow-sm transition-all text-sm"
              >
                <SparklesIcon className="w-4 h-4" />
@@ -403,22 +686,45 @@ const App: React.FC = () => {
 
           {/* Inputs */}
           <div className="flex-1 flex flex-col min-h-0 overflow-hidden">
+            {/* Base (three-way only) */}
+            {isThreeWay && (
+              <div className="flex-1 flex flex-col min-h-0 border-b border-slate-100 bg-slate-50/30 relative">
+                <div className="px-4 py-2 bg-slate-100 border-b border-slate-200 flex justify-between items-center z-10 relative">
+                   <div className="flex items-center gap-2">
+                     <div className="w-2 h-2 rounded-full bg-slate-500"></div>
+                     <label className="text-xs font-bold text-slate-700 uppercase tracking-wider">Base Text</label>
+                   </div>
+                   <span className="text-xs text-slate-400 font-medium">{baseText.length} chars</span>
+                </div>
+                <div className="flex-1 relative min-h-0">
+                  <InputHighlighter 
+                    text={baseText}
+                    onChange={setBaseText}
+                    diffParts={[]}
+                    type="original"
+                    placeholder="Paste the common base text here..."
+                  />
+                </div>
+              </div>
+            )}
+
             {/* Original */}
             <div className="flex-1 flex flex-col min-h-0 border-b border-slate-100 bg-red-50/10 relative">
               <div className="px-4 py-2 bg-red-50 border-b border-red-100 flex justify-between items-center z-10 relative">
                  <div className="flex items-center gap-2">
                    <div className="w-2 h-2 rounded-full bg-red-500"></div>
-                   <label className="text-xs font-bold text-red-800 uppercase tracking-wider">Original Text</label>
+                   <label className="text-xs font-bold text-red-800 uppercase tracking-wider">{isThreeWay ? 'Version A' : 'Original Text'}</label>
                  </div>
                  <span className="text-xs text-red-400 font-medium">{originalText.length} chars</span>
               </div>
               <div className="flex-1 relative min-h-0">
                 <InputHighlighter 
                   text={originalText}
-                  onChange={setOriginalText}
-                  diffParts={diffParts}
-                  type="original"
-                  placeholder="Paste original text here..."
+                  onChange={handleOriginalChange}
+                  diffParts={partsA}
+                  type={isThreeWay ? 'modified' : 'original'}
+                  focusRange={changeFocus ? { start: changeFocus.location.original[0], end: changeFocus.location.original[1], key: changeFocus.key } : undefined}
+                  placeholder={isThreeWay ? 'Paste the first edit here...' : 'Paste original text here...'}
                 />
               </div>
             </div>
@@ -428,17 +734,18 @@ const App: React.FC = () => {
               <div className="px-4 py-2 bg-green-50 border-b border-green-100 border-t border-t-slate-100 flex justify-between items-center z-10 relative">
                  <div className="flex items-center gap-2">
                    <div className="w-2 h-2 rounded-full bg-green-500"></div>
-                   <label className="text-xs font-bold text-green-800 uppercase tracking-wider">Modified Text</label>
+                   <label className="text-xs font-bold text-green-800 uppercase tracking-wider">{isThreeWay ? 'Version B' : 'Modified Text'}</label>
                  </div>
                  <span className="text-xs text-green-500 font-medium">{modifiedText.length} chars</span>
               </div>
               <div className="flex-1 relative min-h-0">
                 <InputHighlighter 
                   text={modifiedText}
-                  onChange={setModifiedText}
-                  diffParts={diffParts}
+                  onChange={handleModifiedChange}
+                  diffParts={partsB}
                   type="modified"
-                  placeholder="Paste modified text here..."
+                  focusRange={changeFocus ? { start: changeFocus.location.modified[0], end: changeFocus.location.modified[1], key: changeFocus.key } : undefined}
+                  placeholder={isThreeWay ? 'Paste the second edit here...' : 'Paste modified text here...'}
                 />
               </div>
             </div>
@@ -1,7 +1,8 @@
 
 import React, { useState, useEffect } from 'react';
-import { KeyIcon, XMarkIcon, PlusIcon, TrashIcon, CheckCircleIcon, GlobeAltIcon } from '@heroicons/react/24/outline';
-import { StoredKey, AIProvider } from '../types';
+import { KeyIcon, XMarkIcon, PlusIcon, TrashIcon, CheckCircleIcon, GlobeAltIcon, SignalIcon } from '@heroicons/react/24/outline';
+import { StoredKey, AIProvider, AuthScheme } from '../types';
+import { PROVIDERS, getProvider } from '../services/providers';
 
 interface ApiKeyModalProps {
   isOpen: boolean;
@@ -10,21 +11,45 @@ interface ApiKeyModalProps {
   setKeys: (keys: StoredKey[]) => void;
 }
 
-const PROVIDERS: { id: AIProvider; name: string; defaultBaseUrl?: string }[] = [
-  { id: 'google', name: 'Google Gemini' },
-  { id: 'openai', name: 'OpenAI', defaultBaseUrl: 'https://api.openai.com/v1' },
-  { id: 'deepseek', name: 'DeepSeek', defaultBaseUrl: 'https://api.deepseek.com' },
-  { id: 'custom', name: 'Custom / OneAPI' },
+const AUTH_SCHEMES: { id: AuthScheme; name: string }[] = [
+  { id: 'bearer', name: 'Authorization: Bearer <key>' },
+  { id: 'api-key', name: 'api-key: <key> (Azure)' },
+  { id: 'none', name: 'No authentication' },
 ];
 
+// Azure OpenAI routes by deployment and versions its API through the query string
+const AZURE_PRESET = {
+  authScheme: 'api-key' as AuthScheme,
+  pathTemplate: '/deployments/{model}/chat/completions',
+  queryParams: 'api-version=2024-10-21',
+};
+
+// Parses one "name<separator>value" pair per line; lines without the separator are ignored
+const parsePairs = (text: string, separator: string): Record<string, string> | undefined => {
+  const pairs: Record<string, string> = {};
+  for (const line of text.split('\n')) {
+    const at = line.indexOf(separator);
+    if (at <= 0) continue;
+    const name = line.slice(0, at).trim();
+    if (name) pairs[name] = line.slice(at + separator.length).trim();
+  }
+  return Object.keys(pairs).length > 0 ? pairs : undefined;
+};
+
 export const ApiKeyModal: React.FC<ApiKeyModalProps> = ({ isOpen, onClose, keys, setKeys }) => {
   const [view, setView] = useState<'list' | 'add'>(keys.length === 0 ? 'add' : 'list');
   
   // Add Form State
   const [name, setName] = useState('');
   const [value, setValue] = useState('');
-  const [provider, setProvider] = useState<AIProvider>('google');
+  const [provider, setProvider] = useState<AIProvider>(PROVIDERS[0].id);
   const [baseUrl, setBaseUrl] = useState('');
+  // Request options, for providers that allow them
+  const [authScheme, setAuthScheme] = useState<AuthScheme>('bearer');
+  const [pathTemplate, setPathTemplate] = useState('');
+  const [extraHeaders, setExtraHeaders] = useState(''); // "Name: value" per line
+  const [queryParams, setQueryParams] = useState(''); // "name=value" per line
+  const [test, setTest] = useState<{ status: 'testing' | 'ok' | 'failed'; message?: string } | null>(null);
 
   // Reset state when opening
   useEffect(() => {
@@ -37,26 +62,63 @@ export const ApiKeyModal: React.FC<ApiKeyModalProps> = ({ isOpen, onClose, keys,
   const resetForm = () => {
     setName('');
     setValue('');
-    setProvider('google');
+    setProvider(PROVIDERS[0].id);
     setBaseUrl('');
+    resetRequestOptions();
+    setTest(null);
+  };
+
+  const resetRequestOptions = () => {
+    setAuthScheme('bearer');
+    setPathTemplate('');
+    setExtraHeaders('');
+    setQueryParams('');
+  };
+
+  const applyAzurePreset = () => {
+    setAuthScheme(AZURE_PRESET.authScheme);
+    setPathTemplate(AZURE_PRESET.pathTemplate);
+    setQueryParams(AZURE_PRESET.queryParams);
+    setTest(null);
   };
 
   if (!isOpen) return null;
 
+  const selectedProvider = getProvider(provider);
+  const isMissingBaseUrl = selectedProvider.capabilities.baseUrl === 'required' && !baseUrl.trim();
+  const hasRequestOptions = selectedProvider.capabilities.customRequest;
+  const isMissingKey = selectedProvider.capabilities.requiresKey && authScheme !== 'none' && !value.trim();
+
+  const buildKey = (): StoredKey => ({
+    id: crypto.randomUUID(),
+    name: name.trim(),
+    value: value.trim(),
+    provider: provider,
+    baseUrl: baseUrl.trim() || undefined,
+    ...(hasRequestOptions ? {
+      authScheme: authScheme !== 'bearer' ? authScheme : undefined,
+      extraHeaders: parsePairs(extraHeaders, ':'),
+      queryParams: parsePairs(queryParams, '='),
+      pathTemplate: pathTemplate.trim() || undefined,
+    } : {}),
+    isActive: keys.length === 0 // Auto-activate if it's the first one
+  });
+
+  const handleTestKey = async () => {
+    setTest({ status: 'testing' });
+    try {
+      await selectedProvider.validateKey(buildKey());
+      setTest({ status: 'ok' });
+    } catch (error: any) {
+      setTest({ status: 'failed', message: error.message || 'The key was rejected.' });
+    }
+  };
+
   const handleAddKey = (e: React.FormEvent) => {
     e.preventDefault();
-    if (!name.trim() || !value.trim()) return;
-
-    const newKey: StoredKey = {
-      id: crypto.randomUUID(),
-      name: name.trim(),
-      value: value.trim(),
-      provider: provider,
-      baseUrl: baseUrl.trim() || undefined,
-      isActive: keys.length === 0 // Auto-activate if it's the first one
-    };
-
-    const updatedKeys = [...keys, newKey];
+    if (!name.trim() || isMissingKey || isMissingBaseUrl) return;
+
+    const updatedKeys = [...keys, buildKey()];
     setKeys(updatedKeys);
     setView('list');
     resetForm();
@@ -80,15 +142,6 @@ export const ApiKeyModal: React.FC<ApiKeyModalProps> = ({ isOpen, onClose, keys,
     if (updatedKeys.length === 0) setView('add');
   };
 
-  const getProviderBadge = (p: AIProvider) => {
-    switch(p) {
-      case 'google': return 'bg-blue-100 text-blue-700';
-      case 'openai': return 'bg-green-100 text-green-700';
-      case 'deepseek': return 'bg-purple-100 text-purple-700';
-      default: return 'bg-slate-100 text-slate-700';
-    }
-  };
-
   return (
     <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-900/50 backdrop-blur-sm p-4">
       <div className="bg-white rounded-xl shadow-2xl w-full max-w-md overflow-hidden border border-slate-100 flex flex-col max-h-[90vh]">
@@ -135,13 +188,13 @@ export const ApiKeyModal: React.FC<ApiKeyModalProps> = ({ isOpen, onClose, keys,
                     >
                       <div className="flex items-center gap-2 mb-1">
                         <span className="font-medium text-slate-800">{key.name}</span>
-                        <span className={`text-[10px] uppercase font-bold px-1.5 py-0.5 rounded ${getProviderBadge(key.provider || 'google')}`}>
-                          {key.provider || 'google'}
+                        <span className={`text-[10px] uppercase font-bold px-1.5 py-0.5 rounded ${getProvider(key.provider).badgeClassName}`}>
+                          {getProvider(key.provider).id}
                         </span>
                         {key.isActive && <CheckCircleIcon className="w-4 h-4 text-indigo-600" />}
                       </div>
                       <div className="text-xs text-slate-400 font-mono">
-                        {key.value.substring(0, 8)}...
+                        {key.value ? `${key.value.substring(0, 8)}...` : key.baseUrl || getProvider(key.provider).defaults.baseUrl}
                       </div>
                     </div>
                     <button 
@@ -165,6 +218,8 @@ export const ApiKeyModal: React.FC<ApiKeyModalProps> = ({ isOpen, onClose, keys,
                   onChange={(e) => {
                     setProvider(e.target.value as AIProvider);
                     setBaseUrl(''); // Reset URL when changing provider
+                    resetRequestOptions();
+                    setTest(null);
                   }}
                   className="w-full px-4 py-3 rounded-lg border border-slate-300 focus:ring-2 focus:ring-indigo-500 outline-none text-sm bg-white"
                 >
@@ -172,6 +227,9 @@ export const ApiKeyModal: React.FC<ApiKeyModalProps> = ({ isOpen, onClose, keys,
                     <option key={p.id} value={p.id}>{p.name}</option>
                   ))}
                 </select>
+                {selectedProvider.description && (
+                  <p className="mt-2 text-xs text-slate-500">{selectedProvider.description}</p>
+                )}
               </div>
 
               <div>
@@ -186,36 +244,114 @@ export const ApiKeyModal: React.FC<ApiKeyModalProps> = ({ isOpen, onClose, keys,
               </div>
 
               <div>
-                <label className="block text-xs font-bold text-slate-700 uppercase tracking-wide mb-2">API Key</label>
+                <label className="block text-xs font-bold text-slate-700 uppercase tracking-wide mb-2">
+                  API Key {!selectedProvider.capabilities.requiresKey && '(Optional)'}
+                </label>
                 <input
                   type="password"
                   value={value}
-                  onChange={(e) => setValue(e.target.value)}
-                  placeholder="sk-..."
+                  onChange={(e) => { setValue(e.target.value); setTest(null); }}
+                  placeholder={selectedProvider.defaults.keyPlaceholder}
                   className="w-full px-4 py-3 rounded-lg border border-slate-300 focus:ring-2 focus:ring-indigo-500 outline-none font-mono text-sm"
                 />
               </div>
 
               {/* Base URL (Conditional) */}
-              {(provider !== 'google') && (
+              {selectedProvider.capabilities.baseUrl !== 'none' && (
                 <div>
                   <label className="block text-xs font-bold text-slate-700 uppercase tracking-wide mb-2 flex items-center gap-1">
-                    <GlobeAltIcon className="w-3 h-3" /> API Base URL {provider !== 'custom' && '(Optional)'}
+                    <GlobeAltIcon className="w-3 h-3" /> API Base URL {selectedProvider.capabilities.baseUrl === 'optional' && '(Optional)'}
                   </label>
                   <input
                     type="text"
                     value={baseUrl}
-                    onChange={(e) => setBaseUrl(e.target.value)}
-                    placeholder={
-                      provider === 'openai' ? 'https://api.openai.com/v1' :
-                      provider === 'deepseek' ? 'https://api.deepseek.com' : 
-                      'https://your-custom-api.com/v1'
-                    }
+                    onChange={(e) => { setBaseUrl(e.target.value); setTest(null); }}
+                    placeholder={selectedProvider.defaults.baseUrl || 'https://your-custom-api.com/v1'}
                     className="w-full px-4 py-3 rounded-lg border border-slate-300 focus:ring-2 focus:ring-indigo-500 outline-none font-mono text-sm"
                   />
                 </div>
               )}
 
+              {/* Request options (Conditional) */}
+              {hasRequestOptions && (
+                <div className="space-y-3 p-4 rounded-lg border border-slate-200 bg-slate-50/50">
+                  <div className="flex items-center justify-between">
+                    <h4 className="text-xs font-bold text-slate-700 uppercase tracking-wide">Request Options</h4>
+                    <button
+                      type="button"
+                      onClick={applyAzurePreset}
+                      className="text-xs font-medium text-indigo-600 hover:text-indigo-800"
+                      title="Fill in the options Azure OpenAI needs"
+                    >
+                      Azure OpenAI Preset
+                    </button>
+                  </div>
+
+                  <div>
+                    <label className="block text-[10px] font-bold text-slate-500 uppercase tracking-wider mb-1">Authentication</label>
+                    <select
+                      value={authScheme}
+                      onChange={(e) => { setAuthScheme(e.target.value as AuthScheme); setTest(null); }}
+                      className="w-full px-3 py-2 rounded-lg border border-slate-300 focus:ring-2 focus:ring-indigo-500 outline-none text-sm bg-white"
+                    >
+                      {AUTH_SCHEMES.map(a => (
+                        <option key={a.id} value={a.id}>{a.name}</option>
+                      ))}
+                    </select>
+                  </div>
+
+                  <div>
+                    <label className="block text-[10px] font-bold text-slate-500 uppercase tracking-wider mb-1">Path Template</label>
+                    <input
+                      type="text"
+                      value={pathTemplate}
+                      onChange={(e) => { setPathTemplate(e.target.value); setTest(null); }}
+                      placeholder="/chat/completions"
+                      className="w-full px-3 py-2 rounded-lg border border-slate-300 focus:ring-2 focus:ring-indigo-500 outline-none font-mono text-sm"
+                    />
+                    <p className="mt-1 text-[11px] text-slate-400">
+                      Appended to the base URL; {'{model}'} becomes the selected model. For Azure, use a base URL like https://&lt;resource&gt;.openai.azure.com/openai and deployments named after the models, or write the deployment name in place of {'{model}'}.
+                    </p>
+                  </div>
+
+                  <div>
+                    <label className="block text-[10px] font-bold text-slate-500 uppercase tracking-wider mb-1">Extra Headers</label>
+                    <textarea
+                      value={extraHeaders}
+                      onChange={(e) => { setExtraHeaders(e.target.value); setTest(null); }}
+                      placeholder={'X-Team: editorial\nX-Gateway-Route: llm'}
+                      rows={2}
+                      className="w-full px-3 py-2 rounded-lg border border-slate-300 focus:ring-2 focus:ring-indigo-500 outline-none font-mono text-sm resize-y"
+                    />
+                  </div>
+
+                  <div>
+                    <label className="block text-[10px] font-bold text-slate-500 uppercase tracking-wider mb-1">Query Parameters</label>
+                    <textarea
+                      value={queryParams}
+                      onChange={(e) => { setQueryParams(e.target.value); setTest(null); }}
+                      placeholder="api-version=2024-10-21"
+                      rows={2}
+                      className="w-full px-3 py-2 rounded-lg border border-slate-300 focus:ring-2 focus:ring-indigo-500 outline-none font-mono text-sm resize-y"
+                    />
+                  </div>
+                </div>
+              )}
+
+              {/* Connection test */}
+              <div className="flex items-center gap-3">
+                <button
+                  type="button"
+                  onClick={handleTestKey}
+                  disabled={isMissingKey || isMissingBaseUrl || test?.status === 'testing'}
+                  className="flex items-center gap-1.5 text-xs font-medium text-indigo-600 hover:text-indigo-800 disabled:text-slate-300 disabled:cursor-not-allowed"
+                >
+                  <SignalIcon className="w-4 h-4" /> {test?.status === 'testing' ? 'Testing...' : 'Test Key'}
+                </button>
+                {test?.status === 'ok' && <span className="text-xs text-green-600 font-medium">The key works.</span>}
+                {test?.status === 'failed' && <span className="text-xs text-red-600 break-all">{test.message}</span>}
+              </div>
+
               <div className="flex gap-3 pt-2">
                 {keys.length > 0 && (
                   <button
@@ -228,7 +364,7 @@ export const ApiKeyModal: React.FC<ApiKeyModalProps> = ({ isOpen, onClose, keys,
                 )}
                 <button
                   type="submit"
-                  disabled={!name.trim() || !value.trim()}
+                  disabled={!name.trim() || isMissingKey || isMissingBaseUrl}
                   className="flex-1 px-4 py-2.5 bg-indigo-600 text-white font-bold rounded-lg hover:bg-indigo-700 shadow-sm disabled:opacity-50"
                 >
                   Save Key
@@ -1,24 +1,737 @@
-import React, { useMemo, useState } from 'react';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
 import { computeDiff } from '../utils/diffEngine';
-import { DiffPart } from '../types';
-import { EyeIcon, ViewColumnsIcon } from '@heroicons/react/24/outline';
+import { splitReplacement } from '../utils/replacements';
+import { indexChanges, applyDecisions } from '../utils/review';
+import { buildHunks, splitLines } from '../utils/hunks';
+import { buildSplitRows, countLineBreaks } from '../utils/splitRows';
+import { markKind, mergeMarks } from '../utils/overview';
+import { compileSearch, findSideMatches } from '../utils/search';
+import { DiffSide, sideText } from '../utils/partSlice';
+import { DiffPart, DiffGranularity, DiffCleanup, DiffOptions, NormalizationOptions, Diff3Chunk, ReviewChange, ChangeDecision, DiffHunk, HunkItem, HunkContextUnit, ChangeLocation, SplitRow, SplitLine, OverviewMark, SearchFilter, SearchQuery } from '../types';
+import { MergeView } from './MergeView';
+import { OverviewRuler } from './OverviewRuler';
+import { useVirtualList } from '../hooks/useVirtualList';
+import {
+  EyeIcon, ViewColumnsIcon, ArrowPathIcon, FunnelIcon, ArrowDownIcon, ArrowUpIcon, CheckIcon, XMarkIcon,
+  ArrowUturnLeftIcon, CheckBadgeIcon, SparklesIcon, ClipboardDocumentIcon, ArrowRightCircleIcon, ChevronUpIcon,
+  ChevronDownIcon, MagnifyingGlassIcon
+} from '@heroicons/react/24/outline';
 
 interface DiffDisplayProps {
   originalText: string;
   modifiedText: string;
   diffParts?: DiffPart[];
+  isComputing?: boolean;
+  error?: string | null; // Why the last diff could not be computed
+  diffOptions?: DiffOptions;
+  onDiffOptionsChange?: (options: DiffOptions) => void;
+  activeIgnoreRuleCount?: number;
+  onOpenIgnoreRules?: () => void;
+  mergeChunks?: Diff3Chunk[] | null; // Three-way mode: show the merged result instead of the diff
+  onApplyResult?: (text: string) => void; // Review: replace the modified text with the result
+  onRecommendChanges?: (changes: ReviewChange[]) => Promise<number[]>; // Review: indices the AI would accept
+  reviewPersonaName?: string;
+  onNavigateChange?: (location: ChangeLocation) => void; // Navigation: reveal the active change in the inputs
 }
 
 type ViewMode = 'split' | 'unified';
+type MoveRole = 'source' | 'destination';
 
-export const DiffDisplay: React.FC<DiffDisplayProps> = ({ originalText, modifiedText, diffParts }) => {
+// One rendered row of the diff views, which are virtualized row by row
+type ViewRow =
+  | { kind: 'expander'; hunk: DiffHunk; h: number }
+  | { kind: 'line'; items: HunkItem[] } // Unified view
+  | { kind: 'split'; row: SplitRow };
+
+const SEARCH_FILTERS: { id: SearchFilter; label: string; title: string }[] = [
+  { id: 'all', label: 'All', title: 'Search all text' },
+  { id: 'added', label: 'Added', title: 'Search only added text' },
+  { id: 'removed', label: 'Removed', title: 'Search only deleted text' },
+  { id: 'unchanged', label: 'Unchanged', title: 'Search only unchanged text' },
+];
+
+// Estimated row heights in pixels, used until a row has been rendered
+const ROW_HEIGHTS: Record<ViewRow['kind'], number> = { expander: 42, line: 32, split: 23 };
+const SPLIT_COLUMNS = 'grid grid-cols-[3rem_minmax(0,1fr)_3rem_minmax(0,1fr)]';
+// Changes closer than this share of the height are drawn as one ruler mark
+const RULER_MIN_GAP = 0.002;
+
+const GRANULARITIES: { id: DiffGranularity; label: string; title: string }[] = [
+  { id: 'char', label: 'Char', title: 'Compare character by character' },
+  { id: 'word', label: 'Word', title: 'Compare word by word (CJK by character)' },
+  { id: 'sentence', label: 'Sentence', title: 'Compare whole sentences' },
+  { id: 'line', label: 'Line', title: 'Compare line by line (code, config)' },
+  { id: 'paragraph', label: 'Para', title: 'Compare whole paragraphs' },
+];
+
+const IGNORE_TOGGLES: { id: keyof NormalizationOptions; label: string; title: string }[] = [
+  { id: 'ignoreWhitespace', label: 'Whitespace', title: 'Ignore differences in spacing and line breaks' },
+  { id: 'ignoreCase', label: 'Case', title: 'Ignore upper/lower case differences' },
+  { id: 'ignorePunctuation', label: 'Punctuation', title: 'Ignore added, removed or changed punctuation' },
+  { id: 'ignoreWidth', label: 'Full/Half Width', title: 'Treat full-width and half-width forms as equal (，/, Ａ/A)' },
+];
+
+// null shows the whole document
+const CONTEXT_SIZES: { id: number | null; label: string }[] = [
+  { id: null, label: 'All' },
+  { id: 1, label: '1' },
+  { id: 3, label: '3' },
+  { id: 10, label: '10' },
+];
+
+const CLEANUPS: { id: DiffCleanup; label: string; title: string }[] = [
+  { id: 'none', label: 'Raw', title: 'Show the raw token diff' },
+  { id: 'lossless', label: 'Align', title: 'Move edit boundaries to word and sentence edges' },
+  { id: 'semantic', label: 'Semantic', title: 'Absorb tiny unchanged fragments into surrounding edits' },
+  { id: 'efficiency', label: 'Compact', title: 'Absorb short unchanged fragments between edits' },
+];
+
+// A search match inside the text of a rendered item
+interface TextMark {
+  start: number;
+  end: number;
+  hit: number | null; // Index among the search hits; null where the split view repeats unchanged text
+  active?: boolean;
+}
+
+/**
+ * Text of a part as shown: the characters that actually changed in a
+ * replacement are emphasized, and search matches are marked.
+ */
+const renderText = (part: DiffPart, text: string, changedClassName: string, marks: TextMark[] = []) => {
+  if (!part.inner && marks.length === 0) return text;
+  const segments = part.inner ? splitReplacement(part) : [{ value: text, changed: false }];
+  const nodes: React.ReactNode[] = [];
+  let offset = 0;
+  for (const segment of segments) {
+    // Cut the segment wherever a mark starts or ends inside it
+    const cuts = new Set([0, segment.value.length]);
+    for (const mark of marks) {
+      for (const cut of [mark.start - offset, mark.end - offset]) {
+        if (cut > 0 && cut < segment.value.length) cuts.add(cut);
+      }
+    }
+    const points = [...cuts].sort((a, b) => a - b);
+    for (let k = 0; k + 1 < points.length; k++) {
+      const value = segment.value.slice(points[k], points[k + 1]);
+      const mark = marks.find(m => m.start <= offset + points[k] && offset + points[k] < m.end);
+      const content = segment.changed ? <span className={changedClassName}>{value}</span> : value;
+      nodes.push(mark ? (
+        <mark
+          key={nodes.length}
+          data-hit={mark.hit ?? undefined}
+          className={`text-inherit rounded-sm ${mark.active ? 'bg-amber-300 ring-2 ring-amber-400' : 'bg-yellow-200'}`}
+        >
+          {content}
+        </mark>
+      ) : (
+        <React.Fragment key={nodes.length}>{content}</React.Fragment>
+      ));
+    }
+    offset += segment.value.length;
+  }
+  return nodes;
+};
+
+export const DiffDisplay: React.FC<DiffDisplayProps> = ({
+  originalText,
+  modifiedText,
+  diffParts,
+  isComputing = false,
+  error,
+  diffOptions = {},
+  onDiffOptionsChange,
+  activeIgnoreRuleCount = 0,
+  onOpenIgnoreRules,
+  mergeChunks,
+  onApplyResult,
+  onRecommendChanges,
+  reviewPersonaName,
+  onNavigateChange
+}) => {
   const [viewMode, setViewMode] = useState<ViewMode>('unified');
   
   // Compute diff only when inputs change, or use provided diffParts
   const diffResult = useMemo(() => {
     if (diffParts) return diffParts;
-    return computeDiff(originalText, modifiedText);
-  }, [originalText, modifiedText, diffParts]);
+    return computeDiff(originalText, modifiedText, diffOptions);
+  }, [originalText, modifiedText, diffParts, diffOptions]);
+
+  const granularity = diffOptions.granularity || 'word';
+  const cleanup = diffOptions.cleanup || 'none';
+  const normalize = diffOptions.normalize || {};
+
+  const toggleIgnore = (id: keyof NormalizationOptions) => {
+    onDiffOptionsChange?.({ ...diffOptions, normalize: { ...normalize, [id]: !normalize[id] } });
+  };
+
+  // --- Hunks: changes with collapsible unchanged context ---
+  const [contextSize, setContextSize] = useState<number | null>(3);
+  const [contextUnit, setContextUnit] = useState<HunkContextUnit>('line');
+  const [expandedHunks, setExpandedHunks] = useState<Set<number>>(new Set());
+
+  const hunks = useMemo<DiffHunk[]>(
+    () => contextSize === null
+      ? [{ items: diffResult.map((part, index) => ({ part, index })) }]
+      : buildHunks(diffResult, contextSize, contextUnit),
+    [diffResult, contextSize, contextUnit]
+  );
+
+  useEffect(() => {
+    setExpandedHunks(new Set());
+  }, [hunks]);
+
+  const isHidden = (hunk: DiffHunk, h: number) => !!hunk.collapsed && !expandedHunks.has(h);
+
+  const renderExpander = (hunk: DiffHunk, h: number) => (
+    <button
+      key={h}
+      type="button"
+      onClick={() => setExpandedHunks(prev => new Set(prev).add(h))}
+      className="block w-full my-2 py-1 rounded-md border border-dashed border-slate-200 bg-slate-50 font-sans text-xs font-medium text-slate-400 hover:text-indigo-600 hover:border-indigo-200 transition-colors select-none"
+      title="Show the unchanged text"
+    >
+      … {hunk.hiddenCount} unchanged {contextUnit === 'line' ? 'lines' : 'sentences'} …
+    </button>
+  );
+
+  // Renders an item, tagged with its change for navigation
+  const renderTracked = (
+    part: DiffPart,
+    index: number,
+    renderItem: (part: DiffPart, index: number, marks?: TextMark[]) => React.ReactNode,
+    key: React.Key = index,
+    marks?: TextMark[]
+  ) => {
+    const node = renderItem(part, index, marks);
+    const change = changeIndex.changeOfPart[index];
+    if (change === null || node === null) return <React.Fragment key={key}>{node}</React.Fragment>;
+    return (
+      <span
+        key={key}
+        data-change={change}
+        className={change === activeChange ? 'rounded ring-2 ring-amber-400 ring-offset-1' : undefined}
+      >
+        {node}
+      </span>
+    );
+  };
+
+  // --- Virtualized Rows: lines (unified) or aligned line pairs (split) per hunk ---
+  const contentRef = useRef<HTMLDivElement>(null);
+
+  const { rows, rowOfPart } = useMemo(() => {
+    const rows: ViewRow[] = [];
+    const rowOfPart = new Map<number, number>(); // First row showing each part
+    const addRow = (row: ViewRow, items: HunkItem[]) => {
+      items.forEach(({ index }) => {
+        if (!rowOfPart.has(index)) rowOfPart.set(index, rows.length);
+      });
+      rows.push(row);
+    };
+    if (mergeChunks) return { rows, rowOfPart };
+
+    const line = { original: 1, modified: 1 }; // Split view numbers lines across collapsed text
+    hunks.forEach((hunk, h) => {
+      if (isHidden(hunk, h)) {
+        rows.push({ kind: 'expander', hunk, h });
+      } else if (viewMode === 'split') {
+        buildSplitRows(hunk.items, { ...line }).forEach(row =>
+          addRow({ kind: 'split', row }, [...(row.original?.items || []), ...(row.modified?.items || [])])
+        );
+      } else {
+        splitLines(hunk.items).forEach(items => addRow({ kind: 'line', items }, items));
+      }
+      const breaks = countLineBreaks(hunk.items);
+      line.original += breaks.original;
+      line.modified += breaks.modified;
+    });
+    return { rows, rowOfPart };
+  }, [viewMode, mergeChunks, hunks, expandedHunks]);
+
+  const virtualRows = useVirtualList(contentRef, rows.length, index => ROW_HEIGHTS[rows[index].kind], rows);
+
+  // Overview ruler: the rows holding each kind of change, as fractions of the height
+  const rulerMarks = useMemo(() => {
+    const { offsets } = virtualRows;
+    const total = offsets[rows.length] || 1;
+    const marks: OverviewMark[] = [];
+    rows.forEach((row, index) => {
+      const items = row.kind === 'line'
+        ? row.items
+        : row.kind === 'split' ? [...(row.row.original?.items || []), ...(row.row.modified?.items || [])] : [];
+      const kinds = new Set(items.map(({ part }) => markKind(part)));
+      for (const kind of kinds) {
+        if (kind) marks.push({ kind, start: offsets[index] / total, end: offsets[index + 1] / total });
+      }
+    });
+    return mergeMarks(marks, RULER_MIN_GAP);
+  }, [rows, virtualRows.offsets]);
+
+  // --- Search: matched in the text of each side, then marked in the rendered rows ---
+  const [isSearchOpen, setIsSearchOpen] = useState(false);
+  const [searchQuery, setSearchQuery] = useState<SearchQuery>({ text: '', filter: 'all' });
+  const [activeHit, setActiveHit] = useState(0);
+  const searchInputRef = useRef<HTMLInputElement>(null);
+  const revealHitRef = useRef<number | null>(null); // Hit to scroll to once its collapsed text is expanded
+
+  const searchRegex = useMemo(() => (isSearchOpen ? compileSearch(searchQuery) : null), [isSearchOpen, searchQuery]);
+  const searchError = typeof searchRegex === 'string' ? searchRegex : '';
+
+  const search = useMemo(() => {
+    const hits: { row: number; hunk: number | null }[] = []; // Row of each hit, and the collapsed hunk hiding it
+    const marks = new Map<string, TextMark[]>(); // Keyed by row, cell and item
+    if (!(searchRegex instanceof RegExp)) return { hits, marks };
+
+    const matches = findSideMatches(diffResult, searchRegex, searchQuery.filter);
+    const pieces = new Map<string, { start: number; end: number; match: number }[]>(); // Keyed by side and part
+    matches.forEach((match, m) => match.pieces.forEach(({ index, start, end }) => {
+      const key = `${match.side}:${index}`;
+      if (!pieces.has(key)) pieces.set(key, []);
+      pieces.get(key)!.push({ start, end, match: m });
+    }));
+
+    // Items are parts or slices of them, in order; each slice is found after the last one
+    const cursors = new Map<string, number>();
+    const hitOfMatch = new Map<number, number>();
+    const markItem = ({ part, index }: HunkItem, side: DiffSide, row: number, hunk: number | null = null) => {
+      const key = `${side}:${index}`;
+      const text = sideText(part, side);
+      const offset = sideText(diffResult[index], side).indexOf(text, cursors.get(key) ?? 0);
+      cursors.set(key, offset + text.length);
+      return (pieces.get(key) || []).flatMap(({ start, end, match }): TextMark[] => {
+        const from = Math.max(start, offset);
+        const to = Math.min(end, offset + text.length);
+        if (from >= to) return [];
+        if (matches[match].isRepeat) return [{ start: from - offset, end: to - offset, hit: null }];
+        // Hits are numbered in the order they first show
+        if (!hitOfMatch.has(match)) {
+          hitOfMatch.set(match, hits.length);
+          hits.push({ row, hunk });
+        }
+        return [{ start: from - offset, end: to - offset, hit: hitOfMatch.get(match)! }];
+      });
+    };
+    const setMarks = (key: string, itemMarks: TextMark[]) => {
+      if (itemMarks.length > 0) marks.set(key, itemMarks);
+    };
+
+    rows.forEach((row, r) => {
+      if (row.kind === 'expander') {
+        row.hunk.items.forEach(item => {
+          markItem(item, 'original', r, row.h);
+          markItem(item, 'modified', r, row.h);
+        });
+      } else if (row.kind === 'split') {
+        (row.row.original?.items || []).forEach((item, i) => setMarks(`${r}:o:${i}`, markItem(item, 'original', r)));
+        (row.row.modified?.items || []).forEach((item, i) => setMarks(`${r}:m:${i}`, markItem(item, 'modified', r)));
+      } else {
+        row.items.forEach((item, i) => {
+          const { part } = item;
+          if (part.removed || part.added) {
+            setMarks(`${r}:u:${i}`, markItem(item, part.removed ? 'original' : 'modified', r));
+            return;
+          }
+          // Unchanged text reads as the modified side; original hits show on it where both sides agree
+          const original = markItem(item, 'original', r).filter(mark => mark.hit !== null);
+          const modified = markItem(item, 'modified', r);
+          setMarks(`${r}:u:${i}`, sideText(part, 'original') === sideText(part, 'modified') ? [...modified, ...original] : modified);
+        });
+      }
+    });
+    return { hits, marks };
+  }, [rows, diffResult, searchRegex, searchQuery.filter]);
+
+  const hitCount = search.hits.length;
+
+  const marksFor = (row: number, cell: string, item: number) =>
+    search.marks.get(`${row}:${cell}:${item}`)?.map(mark => (mark.hit === activeHit ? { ...mark, active: true } : mark));
+
+  // Scrolls to a hit, first expanding the collapsed text hiding it
+  const revealHit = (hit: number) => {
+    const { row, hunk } = search.hits[hit];
+    if (hunk === null) {
+      virtualRows.scrollToRow(row, `[data-hit="${hit}"]`);
+      return;
+    }
+    revealHitRef.current = hit;
+    setExpandedHunks(prev => new Set(prev).add(hunk));
+  };
+
+  useEffect(() => {
+    const hit = revealHitRef.current;
+    if (hit === null) return;
+    const target = search.hits[hit];
+    if (target && target.hunk !== null) return; // Not expanded yet
+    revealHitRef.current = null;
+    if (target) virtualRows.scrollToRow(target.row, `[data-hit="${hit}"]`);
+  }, [search]);
+
+  const goToHit = (hit: number) => {
+    if (hitCount === 0) return;
+    const next = (hit + hitCount) % hitCount;
+    setActiveHit(next);
+    revealHit(next);
+  };
+
+  // Jump to the first hit as the search changes
+  useEffect(() => {
+    setActiveHit(0);
+    if (search.hits.length > 0) revealHit(0);
+  }, [searchRegex, searchQuery.filter]);
+
+  const openSearch = () => {
+    setIsSearchOpen(true);
+    setTimeout(() => searchInputRef.current?.select());
+  };
+
+  const handleSearchKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter') {
+      e.preventDefault();
+      goToHit(activeHit + (e.shiftKey ? -1 : 1));
+    } else if (e.key === 'Escape') {
+      setIsSearchOpen(false);
+    }
+  };
+
+  // Scrolls to the row showing a part, centering the element matching selector
+  const scrollToPart = (partIndex: number, selector: string) => {
+    const row = rowOfPart.get(partIndex);
+    if (row !== undefined) virtualRows.scrollToRow(row, selector);
+  };
+
+  // --- Moved Blocks ---
+  const [flashedMove, setFlashedMove] = useState<string | null>(null);
+
+  // Part index of each move's source and destination, for the jump direction
+  const movePositions = useMemo(() => {
+    const positions = new Map<number, Record<MoveRole, number>>();
+    diffResult.forEach((part, index) => {
+      if (!part.moved || part.moveId === undefined) return;
+      const entry = positions.get(part.moveId) || { source: -1, destination: -1 };
+      entry[part.removed ? 'source' : 'destination'] = index;
+      positions.set(part.moveId, entry);
+    });
+    return positions;
+  }, [diffResult]);
+
+  const jumpToMove = (moveId: number, role: MoveRole) => {
+    const key = `${role}-${moveId}`;
+    const position = movePositions.get(moveId);
+    if (position) scrollToPart(position[role], `[data-move="${key}"]`);
+    setFlashedMove(key);
+    setTimeout(() => setFlashedMove(current => (current === key ? null : current)), 1500);
+  };
+
+  const renderMoved = (part: DiffPart, index: number, className: string, marks?: TextMark[]) => {
+    const role: MoveRole = part.removed ? 'source' : 'destination';
+    const target: MoveRole = part.removed ? 'destination' : 'source';
+    const key = `${role}-${part.moveId}`;
+    const position = movePositions.get(part.moveId!);
+    const Arrow = position && position[target] < position[role] ? ArrowUpIcon : ArrowDownIcon;
+    return (
+      <React.Fragment key={index}>
+        <span data-move={key} className={`${className} ${flashedMove === key ? 'ring-2 ring-violet-400' : ''}`}>
+          {renderText(part, part.value, '', marks)}
+        </span>
+        <button
+          type="button"
+          onClick={() => jumpToMove(part.moveId!, target)}
+          className="inline-flex items-center gap-0.5 align-middle mx-0.5 px-1 rounded text-[10px] leading-4 font-sans font-bold bg-violet-100 text-violet-700 hover:bg-violet-200 select-none"
+          title={part.removed ? 'Moved: jump to the new position' : 'Moved: jump to the original position'}
+        >
+          <Arrow className="w-3 h-3" />
+          {part.moveId}
+        </button>
+      </React.Fragment>
+    );
+  };
+
+  // --- Accept / Reject Review ---
+  const [isReviewing, setIsReviewing] = useState(false);
+  const [decisions, setDecisions] = useState<Record<number, ChangeDecision>>({});
+  const [recommended, setRecommended] = useState<Set<number>>(new Set());
+  const [isRecommending, setIsRecommending] = useState(false);
+  const [recommendError, setRecommendError] = useState('');
+  const [copiedResult, setCopiedResult] = useState(false);
+  const [copyError, setCopyError] = useState('');
+
+  const changeIndex = useMemo(() => indexChanges(diffResult), [diffResult]);
+  const resultText = useMemo(
+    () => (isReviewing ? applyDecisions(diffResult, changeIndex.changeOfPart, decisions) : ''),
+    [isReviewing, diffResult, changeIndex, decisions]
+  );
+
+  // Decisions and the active change refer to one diff; start over when it changes
+  useEffect(() => {
+    setDecisions({});
+    setRecommended(new Set());
+    setActiveChange(null);
+  }, [diffResult]);
+
+  const decisionCounts = Object.values(decisions).reduce(
+    (counts, d) => ({ ...counts, [d]: counts[d] + 1 }),
+    { accepted: 0, rejected: 0 } as Record<ChangeDecision, number>
+  );
+  const pendingCount = changeIndex.changes.length - decisionCounts.accepted - decisionCounts.rejected;
+
+  // --- Change Navigation ---
+  const [activeChange, setActiveChange] = useState<number | null>(null);
+  const changeCount = changeIndex.changes.length;
+
+  const goToChange = (step: 1 | -1) => {
+    if (changeCount === 0 || mergeChunks) return;
+    const next = activeChange === null
+      ? (step === 1 ? 0 : changeCount - 1)
+      : (activeChange + step + changeCount) % changeCount;
+    setActiveChange(next);
+    scrollToPart(changeIndex.changeOfPart.indexOf(next), `[data-change="${next}"]`);
+    onNavigateChange?.(changeIndex.locations[next]);
+  };
+
+  // n / j: next change, p / k: previous change, /: find (unless typing somewhere)
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.ctrlKey || e.metaKey || e.altKey) return;
+      if ((e.target as HTMLElement).closest?.('input, textarea, select, [contenteditable="true"]')) return;
+      if (e.key === '/' && !mergeChunks) {
+        e.preventDefault();
+        openSearch();
+      } else if (e.key === 'n' || e.key === 'j') {
+        e.preventDefault();
+        goToChange(1);
+      } else if (e.key === 'p' || e.key === 'k') {
+        e.preventDefault();
+        goToChange(-1);
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
+
+  const toggleReview = () => {
+    if (!isReviewing) setViewMode('unified'); // Controls are shown in the review view
+    setIsReviewing(!isReviewing);
+  };
+
+  const decide = (change: number, decision: ChangeDecision | null) => {
+    setDecisions(prev => {
+      const next = { ...prev };
+      if (decision) next[change] = decision;
+      else delete next[change];
+      return next;
+    });
+  };
+
+  const decideAll = (decision: ChangeDecision) => {
+    setDecisions(Object.fromEntries(changeIndex.changes.map((_, i) => [i, decision])));
+  };
+
+  const handleRecommend = async () => {
+    if (!onRecommendChanges || changeIndex.changes.length === 0) return;
+    setIsRecommending(true);
+    setRecommendError('');
+    try {
+      const picks = await onRecommendChanges(changeIndex.changes);
+      setRecommended(new Set(picks));
+      setDecisions(prev => ({ ...prev, ...Object.fromEntries(picks.map(i => [i, 'accepted'])) }));
+    } catch (error: any) {
+      setRecommendError(error.message || 'Failed to get recommendations.');
+    } finally {
+      setIsRecommending(false);
+    }
+  };
+
+  const handleCopyResult = async () => {
+    setCopyError('');
+    try {
+      await navigator.clipboard.writeText(resultText);
+      setCopiedResult(true);
+      setTimeout(() => setCopiedResult(false), 2000);
+    } catch (error: any) {
+      setCopyError(error?.message || 'Could not copy to the clipboard.');
+    }
+  };
+
+  const renderDecisionControls = (change: number) => {
+    const decision = decisions[change];
+    return (
+      <span className="inline-flex items-center align-middle mx-0.5 rounded border border-slate-200 bg-white font-sans text-[10px] font-bold leading-4 select-none overflow-hidden">
+        {recommended.has(change) && (
+          <span className="px-1 text-indigo-500" title="Recommended by the AI">
+            <SparklesIcon className="w-3 h-3" />
+          </span>
+        )}
+        {decision ? (
+          <button
+            type="button"
+            onClick={() => decide(change, null)}
+            className={`flex items-center gap-0.5 px-1 py-0.5 hover:bg-slate-50 ${decision === 'accepted' ? 'text-green-600' : 'text-red-600'}`}
+            title="Undo decision"
+          >
+            <ArrowUturnLeftIcon className="w-3 h-3" />
+            {decision === 'accepted' ? 'Accepted' : 'Rejected'}
+          </button>
+        ) : (
+          <>
+            <button
+              type="button"
+              onClick={() => decide(change, 'accepted')}
+              className="px-1 py-0.5 text-green-600 hover:bg-green-50"
+              title="Accept change"
+            >
+              <CheckIcon className="w-3 h-3" />
+            </button>
+            <button
+              type="button"
+              onClick={() => decide(change, 'rejected')}
+              className="px-1 py-0.5 text-red-600 hover:bg-red-50 border-l border-slate-200"
+              title="Reject change"
+            >
+              <XMarkIcon className="w-3 h-3" />
+            </button>
+          </>
+        )}
+      </span>
+    );
+  };
+
+  const renderOriginalPart = (part: DiffPart, index: number, marks?: TextMark[]) => {
+    if (part.removed && part.moved) {
+      return renderMoved(part, index, 'bg-violet-100 text-violet-800 line-through decoration-violet-400/50 opacity-80 rounded-[2px] px-0.5', marks);
+    }
+    if (part.removed) {
+      return (
+        <span key={index} className="bg-red-100 text-red-800 line-through decoration-red-400/50 select-none opacity-80 rounded-[2px] px-0.5">
+          {renderText(part, part.value, 'bg-red-200 text-red-900 rounded-[2px]', marks)}
+        </span>
+      );
+    }
+    if (part.added) {
+      return null; // Hide added text in original view
+    }
+    return <span key={index}>{renderText(part, part.value, '', marks)}</span>;
+  };
+
+  const renderModifiedPart = (part: DiffPart, index: number, marks?: TextMark[]) => {
+    if (part.added && part.moved) {
+      return renderMoved(part, index, 'bg-violet-100 text-violet-800 font-medium border-b-2 border-violet-200 rounded-[2px] px-0.5', marks);
+    }
+    if (part.added) {
+      return (
+        <span key={index} className="bg-green-100 text-green-800 font-medium border-b-2 border-green-200 rounded-[2px] px-0.5">
+          {renderText(part, part.value, 'bg-green-200 text-green-900 rounded-[2px]', marks)}
+        </span>
+      );
+    }
+    if (part.removed) {
+      return null; // Hide removed text in modified view
+    }
+    return <span key={index}>{renderText(part, part.newValue ?? part.value, '', marks)}</span>;
+  };
+
+  const renderUnifiedPart = (part: DiffPart, index: number, marks?: TextMark[]) => {
+    if (part.moved) {
+      return renderMoved(part, index, part.removed
+        ? 'bg-violet-50 text-violet-600 line-through decoration-violet-400/40 decoration-2 mx-0.5 px-0.5 rounded'
+        : 'bg-violet-50 text-violet-700 underline decoration-violet-400/40 decoration-2 underline-offset-2 font-medium mx-0.5 px-0.5 rounded', marks);
+    }
+    if (part.removed) {
+      return (
+        <span key={index} className="bg-red-50 text-red-600 line-through decoration-red-400/40 decoration-2 mx-0.5 px-0.5 rounded">
+          {renderText(part, part.value, 'bg-red-100 text-red-700 rounded-sm', marks)}
+        </span>
+      );
+    }
+    if (part.added) {
+      return (
+        <span key={index} className="bg-green-50 text-green-700 decoration-green-400/40 underline decoration-2 underline-offset-2 font-medium mx-0.5 px-0.5 rounded">
+          {renderText(part, part.value, 'bg-green-100 text-green-800 rounded-sm', marks)}
+        </span>
+      );
+    }
+    // Unchanged (shown as it reads in the modified text)
+    return <span key={index}>{renderText(part, part.newValue ?? part.value, '', marks)}</span>;
+  };
+
+  const renderReviewPart = (part: DiffPart, index: number, marks?: TextMark[]) => {
+    const change = isReviewing ? changeIndex.changeOfPart[index] : null;
+    if (change === null) return renderUnifiedPart(part, index, marks);
+
+    // Decided changes read as they will in the result
+    const decision = decisions[change];
+    const isKept = !!part.added === (decision === 'accepted');
+    return (
+      <React.Fragment key={index}>
+        {decision
+          ? isKept && <span className="underline decoration-dotted decoration-slate-300 underline-offset-4">{renderText(part, part.value, '', marks)}</span>
+          : renderUnifiedPart(part, index, marks)}
+        {changeIndex.lastPartOfChange[change] === index && renderDecisionControls(change)}
+      </React.Fragment>
+    );
+  };
+
+  // Line number and text cells of one side of a split row; null draws a filler
+  const renderSplitLine = (line: SplitLine | null, side: 'original' | 'modified', row: number) => {
+    const key = side === 'original' ? 'o' : 'm';
+    const isOriginal = side === 'original';
+    if (!line) {
+      return (
+        <React.Fragment key={key}>
+          <div className={`bg-slate-100/70 ${isOriginal ? '' : 'border-l border-slate-200'}`}></div>
+          <div className="bg-slate-100/70"></div>
+        </React.Fragment>
+      );
+    }
+    const tint = line.changed ? (isOriginal ? 'bg-red-50/60' : 'bg-green-50/60') : '';
+    return (
+      <React.Fragment key={key}>
+        <div className={`px-2 text-right text-slate-400 tabular-nums select-none ${tint} ${isOriginal ? '' : 'border-l border-slate-200'}`}>
+          <span className="text-xs">{line.number}</span>
+        </div>
+        <div className={`px-3 whitespace-pre-wrap break-words min-w-0 ${tint}`}>
+          {line.items.map(({ part, index }, i) =>
+            renderTracked(part, index, isOriginal ? renderOriginalPart : renderModifiedPart, i, marksFor(row, key, i))
+          )}
+        </div>
+      </React.Fragment>
+    );
+  };
+
+  const renderRow = (row: ViewRow, index: number) => {
+    switch (row.kind) {
+      case 'expander':
+        return (
+          <div key={index} data-virtual-row={index} className={`flow-root ${viewMode === 'split' ? 'px-3' : ''}`}>
+            {renderExpander(row.hunk, row.h)}
+          </div>
+        );
+      case 'split':
+        return (
+          <div key={index} data-virtual-row={index} className={SPLIT_COLUMNS}>
+            {renderSplitLine(row.row.original, 'original', index)}
+            {renderSplitLine(row.row.modified, 'modified', index)}
+          </div>
+        );
+      default:
+        return (
+          <div key={index} data-virtual-row={index} className="min-h-[2rem]">
+            {row.items.map(({ part, index: partIndex }, i) =>
+              renderTracked(part, partIndex, renderReviewPart, i, marksFor(index, 'u', i))
+            )}
+          </div>
+        );
+    }
+  };
+
+  // Only the rows near the viewport, with spacers standing in for the rest
+  const renderVirtualRows = () => (
+    <>
+      {virtualRows.paddingTop > 0 && <div style={{ height: virtualRows.paddingTop }}></div>}
+      {rows.slice(virtualRows.start, virtualRows.end).map((row, i) => renderRow(row, virtualRows.start + i))}
+      {virtualRows.paddingBottom > 0 && <div style={{ height: virtualRows.paddingBottom }}></div>}
+    </>
+  );
 
   const hasContent = originalText || modifiedText;
 
@@ -39,124 +752,448 @@ export const DiffDisplay: React.FC<DiffDisplayProps> = ({ originalText, modified
   return (
     <div className="bg-white border border-slate-200 rounded-xl overflow-hidden shadow-sm flex flex-col">
       {/* Toolbar / View Toggle */}
-      <div className="border-b border-slate-100 px-4 py-3 flex items-center justify-between bg-slate-50/50">
+      <div className="border-b border-slate-100 px-4 py-3 flex flex-wrap items-center justify-between gap-2 bg-slate-50/50">
         <div className="flex items-center gap-4">
           <h3 className="text-sm font-bold text-slate-700 uppercase tracking-wide">
-            {viewMode === 'unified' ? 'Review Mode' : 'Comparison View'}
+            {mergeChunks ? 'Three-Way Merge' : viewMode === 'unified' ? 'Review Mode' : 'Comparison View'}
           </h3>
           
           {/* Legend */}
-          <div className="flex items-center gap-3 text-xs font-medium">
-            <div className="flex items-center gap-1.5">
-              <span className={`w-2 h-2 rounded-full ${viewMode === 'unified' ? 'bg-red-500' : 'bg-red-400'}`}></span>
-              <span className="text-slate-500">Deleted</span>
+          {!mergeChunks && (
+            <div className="flex items-center gap-3 text-xs font-medium">
+              <div className="flex items-center gap-1.5">
+                <span className={`w-2 h-2 rounded-full ${viewMode === 'unified' ? 'bg-red-500' : 'bg-red-400'}`}></span>
+                <span className="text-slate-500">Deleted</span>
+              </div>
+              <div className="flex items-center gap-1.5">
+                <span className={`w-2 h-2 rounded-full ${viewMode === 'unified' ? 'bg-green-500' : 'bg-green-500'}`}></span>
+                <span className="text-slate-500">Added</span>
+              </div>
+              {diffOptions.detectMoves && (
+                <div className="flex items-center gap-1.5">
+                  <span className="w-2 h-2 rounded-full bg-violet-500"></span>
+                  <span className="text-slate-500">Moved</span>
+                </div>
+              )}
             </div>
-            <div className="flex items-center gap-1.5">
-              <span className={`w-2 h-2 rounded-full ${viewMode === 'unified' ? 'bg-green-500' : 'bg-green-500'}`}></span>
-              <span className="text-slate-500">Added</span>
+          )}
+
+          {isComputing && (
+            <div className="flex items-center gap-1.5 text-xs font-medium text-indigo-500">
+              <ArrowPathIcon className="w-3.5 h-3.5 animate-spin" />
+              Computing…
             </div>
-          </div>
+          )}
         </div>
 
-        <div className="flex bg-slate-200/60 p-1 rounded-lg">
-          <button
-            onClick={() => setViewMode('unified')}
-            className={`flex items-center gap-2 px-3 py-1.5 rounded-md text-xs font-medium transition-all ${
-              viewMode === 'unified'
-                ? 'bg-white text-indigo-600 shadow-sm ring-1 ring-black/5'
-                : 'text-slate-500 hover:text-slate-700'
-            }`}
-            title="Inline Review Mode (Like Word)"
-          >
-            <EyeIcon className="w-4 h-4" />
-            Review
-          </button>
+        <div className="flex items-center gap-2">
+          {/* Granularity Toggle */}
+          {onDiffOptionsChange && (
+            <div className="flex bg-slate-200/60 p-1 rounded-lg">
+              {GRANULARITIES.map(g => (
+                <button
+                  key={g.id}
+                  onClick={() => onDiffOptionsChange({ ...diffOptions, granularity: g.id })}
+                  className={`px-2.5 py-1.5 rounded-md text-xs font-medium transition-all ${
+                    granularity === g.id
+                      ? 'bg-white text-indigo-600 shadow-sm ring-1 ring-black/5'
+                      : 'text-slate-500 hover:text-slate-700'
+                  }`}
+                  title={g.title}
+                >
+                  {g.label}
+                </button>
+              ))}
+            </div>
+          )}
+
+          {!mergeChunks && (
+            <div className="flex items-center bg-slate-200/60 p-1 rounded-lg text-xs font-medium">
+              <button
+                onClick={() => goToChange(-1)}
+                disabled={changeCount === 0}
+                className="p-1 rounded-md text-slate-500 hover:text-slate-700 hover:bg-white disabled:opacity-40 disabled:hover:bg-transparent"
+                title="Previous change (p / k)"
+              >
+                <ChevronUpIcon className="w-4 h-4" />
+              </button>
+              <span className="px-2 text-slate-600 tabular-nums whitespace-nowrap">
+                {changeCount === 0
+                  ? 'No changes'
+                  : activeChange === null
+                    ? `${changeCount} changes`
+                    : `Change ${activeChange + 1} of ${changeCount}`}
+              </span>
+              <button
+                onClick={() => goToChange(1)}
+                disabled={changeCount === 0}
+                className="p-1 rounded-md text-slate-500 hover:text-slate-700 hover:bg-white disabled:opacity-40 disabled:hover:bg-transparent"
+                title="Next change (n / j)"
+              >
+                <ChevronDownIcon className="w-4 h-4" />
+              </button>
+            </div>
+          )}
+
+          {!mergeChunks && (
+            <button
+              onClick={() => (isSearchOpen ? setIsSearchOpen(false) : openSearch())}
+              className={`flex items-center gap-1.5 px-3 py-2 rounded-lg text-xs font-medium transition-all ${
+                isSearchOpen
+                  ? 'bg-indigo-600 text-white shadow-sm'
+                  : 'bg-slate-200/60 text-slate-500 hover:text-slate-700'
+              }`}
+              title="Find in the diff (/)"
+            >
+              <MagnifyingGlassIcon className="w-4 h-4" />
+              Find
+            </button>
+          )}
+
+          {!mergeChunks && (
+            <button
+              onClick={toggleReview}
+              className={`flex items-center gap-1.5 px-3 py-2 rounded-lg text-xs font-medium transition-all ${
+                isReviewing
+                  ? 'bg-indigo-600 text-white shadow-sm'
+                  : 'bg-slate-200/60 text-slate-500 hover:text-slate-700'
+              }`}
+              title="Accept or reject each change to build a result"
+            >
+              <CheckBadgeIcon className="w-4 h-4" />
+              Accept/Reject
+            </button>
+          )}
+
+          {!mergeChunks && (
+            <div className="flex bg-slate-200/60 p-1 rounded-lg">
+              <button
+                onClick={() => setViewMode('unified')}
+                className={`flex items-center gap-2 px-3 py-1.5 rounded-md text-xs font-medium transition-all ${
+                  viewMode === 'unified'
+                    ? 'bg-white text-indigo-600 shadow-sm ring-1 ring-black/5'
+                    : 'text-slate-500 hover:text-slate-700'
+                }`}
+                title="Inline Review Mode (Like Word)"
+              >
+                <EyeIcon className="w-4 h-4" />
+                Review
+              </button>
+              <button
+                onClick={() => setViewMode('split')}
+                className={`flex items-center gap-2 px-3 py-1.5 rounded-md text-xs font-medium transition-all ${
+                  viewMode === 'split'
+                    ? 'bg-white text-indigo-600 shadow-sm ring-1 ring-black/5'
+                    : 'text-slate-500 hover:text-slate-700'
+                }`}
+                title="Side-by-Side Comparison"
+              >
+                <ViewColumnsIcon className="w-4 h-4" />
+                Split
+              </button>
+            </div>
+          )}
+        </div>
+      </div>
+
+      {/* Diff Options */}
+      {onDiffOptionsChange && (
+        <div className="border-b border-slate-100 px-4 py-2 flex flex-wrap items-center gap-x-6 gap-y-2 bg-white text-xs">
+          <div className="flex items-center gap-2">
+            <span className="font-bold text-slate-400 uppercase tracking-wider">Cleanup</span>
+            <div className="flex bg-slate-100 p-0.5 rounded-md">
+              {CLEANUPS.map(c => (
+                <button
+                  key={c.id}
+                  onClick={() => onDiffOptionsChange({ ...diffOptions, cleanup: c.id })}
+                  className={`px-2 py-1 rounded font-medium transition-all ${
+                    cleanup === c.id
+                      ? 'bg-white text-indigo-600 shadow-sm ring-1 ring-black/5'
+                      : 'text-slate-500 hover:text-slate-700'
+                  }`}
+                  title={c.title}
+                >
+                  {c.label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="flex items-center gap-2">
+            <span className="font-bold text-slate-400 uppercase tracking-wider">Context</span>
+            <div className="flex bg-slate-100 p-0.5 rounded-md">
+              {CONTEXT_SIZES.map(c => (
+                <button
+                  key={c.label}
+                  onClick={() => setContextSize(c.id)}
+                  className={`px-2 py-1 rounded font-medium transition-all ${
+                    contextSize === c.id
+                      ? 'bg-white text-indigo-600 shadow-sm ring-1 ring-black/5'
+                      : 'text-slate-500 hover:text-slate-700'
+                  }`}
+                  title={c.id === null ? 'Show the whole document' : `Collapse unchanged text beyond ${c.id} around each change`}
+                >
+                  {c.label}
+                </button>
+              ))}
+            </div>
+            <select
+              value={contextUnit}
+              onChange={(e) => setContextUnit(e.target.value as HunkContextUnit)}
+              disabled={contextSize === null}
+              className="bg-white border border-slate-200 text-slate-600 rounded-md px-1.5 py-1 focus:ring-2 focus:ring-indigo-500 focus:outline-none disabled:opacity-50"
+            >
+              <option value="line">Lines</option>
+              <option value="sentence">Sentences</option>
+            </select>
+          </div>
+
           <button
-            onClick={() => setViewMode('split')}
-            className={`flex items-center gap-2 px-3 py-1.5 rounded-md text-xs font-medium transition-all ${
-              viewMode === 'split'
-                ? 'bg-white text-indigo-600 shadow-sm ring-1 ring-black/5'
-                : 'text-slate-500 hover:text-slate-700'
+            onClick={() => onDiffOptionsChange({ ...diffOptions, detectMoves: !diffOptions.detectMoves })}
+            className={`px-2 py-1 rounded-md border font-medium transition-colors ${
+              diffOptions.detectMoves
+                ? 'bg-violet-50 border-violet-200 text-violet-700'
+                : 'bg-white border-slate-200 text-slate-500 hover:text-slate-700'
             }`}
-            title="Side-by-Side Comparison"
+            title="Show relocated blocks as moves instead of a deletion plus an insertion"
           >
-            <ViewColumnsIcon className="w-4 h-4" />
-            Split
+            Detect Moves
           </button>
+
+          <div className="flex items-center gap-2">
+            <span className="font-bold text-slate-400 uppercase tracking-wider">Ignore</span>
+            <div className="flex flex-wrap gap-1">
+              {IGNORE_TOGGLES.map(t => (
+                <button
+                  key={t.id}
+                  onClick={() => toggleIgnore(t.id)}
+                  className={`px-2 py-1 rounded-md border font-medium transition-colors ${
+                    normalize[t.id]
+                      ? 'bg-indigo-50 border-indigo-200 text-indigo-700'
+                      : 'bg-white border-slate-200 text-slate-500 hover:text-slate-700'
+                  }`}
+                  title={t.title}
+                >
+                  {t.label}
+                </button>
+              ))}
+              {onOpenIgnoreRules && (
+                <button
+                  onClick={onOpenIgnoreRules}
+                  className={`flex items-center gap-1 px-2 py-1 rounded-md border font-medium transition-colors ${
+                    activeIgnoreRuleCount > 0
+                      ? 'bg-indigo-50 border-indigo-200 text-indigo-700'
+                      : 'bg-white border-slate-200 text-slate-500 hover:text-slate-700'
+                  }`}
+                  title="Regex rules for volatile content (dates, versions, IDs)"
+                >
+                  <FunnelIcon className="w-3 h-3" />
+                  Rules{activeIgnoreRuleCount > 0 && ` (${activeIgnoreRuleCount})`}
+                </button>
+              )}
+            </div>
+          </div>
         </div>
-      </div>
+      )}
 
-      {/* Content Area */}
-      <div className="bg-slate-50/30 min-h-[300px]">
-        {viewMode === 'split' ? (
-          // --- Split View (Side by Side) ---
-          <div className="grid grid-cols-1 md:grid-cols-2 divide-y md:divide-y-0 md:divide-x divide-slate-200">
-            {/* Original Text Panel */}
-            <div className="bg-white p-6">
-              <h4 className="text-xs uppercase tracking-wide text-slate-400 font-bold mb-4 select-none">Original</h4>
-              <div className="font-mono text-sm leading-relaxed whitespace-pre-wrap text-slate-700 break-words">
-                {diffResult.map((part, index) => {
-                  if (part.removed) {
-                    return (
-                      <span key={index} className="bg-red-100 text-red-800 line-through decoration-red-400/50 select-none opacity-80 rounded-[2px] px-0.5">
-                        {part.value}
-                      </span>
-                    );
-                  }
-                  if (part.added) {
-                    return null; // Hide added text in original view
-                  }
-                  return <span key={index}>{part.value}</span>;
-                })}
-              </div>
+      {/* Find Bar */}
+      {isSearchOpen && !mergeChunks && (
+        <div className="border-b border-slate-100 px-4 py-2 flex flex-wrap items-center gap-x-4 gap-y-2 bg-white text-xs">
+          <div className="flex items-center gap-1 flex-1 min-w-[240px]">
+            <div className="relative flex-1">
+              <MagnifyingGlassIcon className="w-3.5 h-3.5 text-slate-400 absolute left-2.5 top-1/2 -translate-y-1/2" />
+              <input
+                ref={searchInputRef}
+                type="text"
+                value={searchQuery.text}
+                onChange={(e) => setSearchQuery({ ...searchQuery, text: e.target.value })}
+                onKeyDown={handleSearchKeyDown}
+                placeholder={searchQuery.isRegex ? 'Regular expression' : 'Find in diff'}
+                className={`w-full pl-8 pr-3 py-1.5 rounded-md border focus:ring-2 focus:ring-indigo-500 outline-none font-mono ${
+                  searchError ? 'border-red-300' : 'border-slate-300'
+                }`}
+              />
             </div>
+            <button
+              onClick={() => setSearchQuery({ ...searchQuery, caseSensitive: !searchQuery.caseSensitive })}
+              className={`px-2 py-1.5 rounded-md border font-medium transition-colors ${
+                searchQuery.caseSensitive
+                  ? 'bg-indigo-50 border-indigo-200 text-indigo-700'
+                  : 'bg-white border-slate-200 text-slate-500 hover:text-slate-700'
+              }`}
+              title="Match case"
+            >
+              Aa
+            </button>
+            <button
+              onClick={() => setSearchQuery({ ...searchQuery, isRegex: !searchQuery.isRegex })}
+              className={`px-2 py-1.5 rounded-md border font-mono font-medium transition-colors ${
+                searchQuery.isRegex
+                  ? 'bg-indigo-50 border-indigo-200 text-indigo-700'
+                  : 'bg-white border-slate-200 text-slate-500 hover:text-slate-700'
+              }`}
+              title="Use a regular expression"
+            >
+              .*
+            </button>
+          </div>
+
+          <div className="flex bg-slate-100 p-0.5 rounded-md">
+            {SEARCH_FILTERS.map(f => (
+              <button
+                key={f.id}
+                onClick={() => setSearchQuery({ ...searchQuery, filter: f.id })}
+                className={`px-2 py-1 rounded font-medium transition-all ${
+                  (searchQuery.filter || 'all') === f.id
+                    ? 'bg-white text-indigo-600 shadow-sm ring-1 ring-black/5'
+                    : 'text-slate-500 hover:text-slate-700'
+                }`}
+                title={f.title}
+              >
+                {f.label}
+              </button>
+            ))}
+          </div>
+
+          <div className="flex items-center gap-1 font-medium">
+            <span className="px-1 text-slate-600 tabular-nums whitespace-nowrap">
+              {!searchQuery.text || searchError ? '' : hitCount === 0 ? 'No matches' : `${activeHit + 1} of ${hitCount}`}
+            </span>
+            <button
+              onClick={() => goToHit(activeHit - 1)}
+              disabled={hitCount === 0}
+              className="p-1 rounded-md text-slate-500 hover:text-slate-700 hover:bg-slate-100 disabled:opacity-40 disabled:hover:bg-transparent"
+              title="Previous match (Shift+Enter)"
+            >
+              <ChevronUpIcon className="w-4 h-4" />
+            </button>
+            <button
+              onClick={() => goToHit(activeHit + 1)}
+              disabled={hitCount === 0}
+              className="p-1 rounded-md text-slate-500 hover:text-slate-700 hover:bg-slate-100 disabled:opacity-40 disabled:hover:bg-transparent"
+              title="Next match (Enter)"
+            >
+              <ChevronDownIcon className="w-4 h-4" />
+            </button>
+            <button
+              onClick={() => setIsSearchOpen(false)}
+              className="p-1 text-slate-400 hover:text-slate-600 transition-colors"
+              title="Close (Esc)"
+            >
+              <XMarkIcon className="w-4 h-4" />
+            </button>
+          </div>
+          {searchError && <p className="w-full text-red-500 font-medium">{searchError}</p>}
+        </div>
+      )}
 
-            {/* Modified Text Panel */}
-            <div className="bg-white p-6">
-              <h4 className="text-xs uppercase tracking-wide text-slate-400 font-bold mb-4 select-none">Modified</h4>
-              <div className="font-mono text-sm leading-relaxed whitespace-pre-wrap text-slate-700 break-words">
-                {diffResult.map((part, index) => {
-                  if (part.added) {
-                    return (
-                      <span key={index} className="bg-green-100 text-green-800 font-medium border-b-2 border-green-200 rounded-[2px] px-0.5">
-                        {part.value}
-                      </span>
-                    );
-                  }
-                  if (part.removed) {
-                    return null; // Hide removed text in modified view
-                  }
-                  return <span key={index}>{part.value}</span>;
-                })}
+      {/* Review Actions */}
+      {isReviewing && !mergeChunks && (
+        <div className="border-b border-slate-100 px-4 py-2 flex flex-wrap items-center justify-between gap-2 bg-indigo-50/40 text-xs">
+          <div className="flex items-center gap-3 font-medium">
+            <span className="text-green-600">{decisionCounts.accepted} accepted</span>
+            <span className="text-red-600">{decisionCounts.rejected} rejected</span>
+            <span className="text-slate-500">{pendingCount} pending</span>
+          </div>
+          <div className="flex items-center gap-1.5">
+            {onRecommendChanges && (
+              <button
+                onClick={handleRecommend}
+                disabled={isRecommending || changeIndex.changes.length === 0}
+                className="flex items-center gap-1 px-2 py-1 rounded-md border border-indigo-200 bg-white text-indigo-700 font-medium hover:bg-indigo-50 disabled:opacity-50"
+                title="Let the AI, acting as the selected persona, accept the changes it recommends"
+              >
+                <SparklesIcon className={`w-3 h-3 ${isRecommending ? 'animate-pulse' : ''}`} />
+                {isRecommending ? 'Asking AI…' : `Accept ${reviewPersonaName || 'AI'} Picks`}
+              </button>
+            )}
+            <button
+              onClick={() => decideAll('accepted')}
+              className="flex items-center gap-1 px-2 py-1 rounded-md border border-green-200 bg-white text-green-700 font-medium hover:bg-green-50"
+            >
+              <CheckIcon className="w-3 h-3" /> Accept All
+            </button>
+            <button
+              onClick={() => decideAll('rejected')}
+              className="flex items-center gap-1 px-2 py-1 rounded-md border border-red-200 bg-white text-red-700 font-medium hover:bg-red-50"
+            >
+              <XMarkIcon className="w-3 h-3" /> Reject All
+            </button>
+            <button
+              onClick={() => setDecisions({})}
+              className="px-2 py-1 rounded-md border border-slate-200 bg-white text-slate-600 font-medium hover:bg-slate-50"
+            >
+              Reset
+            </button>
+          </div>
+          {recommendError && <p className="w-full text-red-500 font-medium">{recommendError}</p>}
+        </div>
+      )}
+
+      {/* Diff Error */}
+      {error && (
+        <div className="border-b border-red-100 px-4 py-2 bg-red-50 text-xs font-medium text-red-600">
+          The diff could not be computed: {error}
+        </div>
+      )}
+
+      {/* Content Area (dimmed while a newer diff is being computed), with the overview ruler beside it */}
+      <div className="flex min-h-[300px] max-h-[75vh]">
+        <div ref={contentRef} className={`flex-1 min-w-0 bg-slate-50/30 max-h-[75vh] overflow-y-auto custom-scrollbar transition-opacity ${isComputing ? 'opacity-60' : ''}`}>
+          {mergeChunks ? (
+            // --- Three-Way Merge ---
+            <MergeView chunks={mergeChunks} />
+          ) : viewMode === 'split' ? (
+            // --- Split View (Side by Side): rows hold both sides, so they stay aligned and scroll together ---
+            <div className="bg-white font-mono text-sm leading-relaxed text-slate-700">
+              <div className={`${SPLIT_COLUMNS} sticky top-0 z-10 bg-white border-b border-slate-100 font-sans text-xs uppercase tracking-wide text-slate-400 font-bold select-none`}>
+                <h4 className="col-span-2 px-3 py-2">Original</h4>
+                <h4 className="col-span-2 px-3 py-2 border-l border-slate-100">Modified</h4>
               </div>
+              {renderVirtualRows()}
             </div>
-          </div>
-        ) : (
-          // --- Unified View (Review Mode) ---
-          <div className="p-8 bg-white">
-            <div className="font-serif text-base leading-8 whitespace-pre-wrap text-slate-800 break-words">
-              {diffResult.map((part, index) => {
-                if (part.removed) {
-                  return (
-                    <span key={index} className="bg-red-50 text-red-600 line-through decoration-red-400/40 decoration-2 mx-0.5 px-0.5 rounded">
-                      {part.value}
-                    </span>
-                  );
-                }
-                if (part.added) {
-                  return (
-                    <span key={index} className="bg-green-50 text-green-700 decoration-green-400/40 underline decoration-2 underline-offset-2 font-medium mx-0.5 px-0.5 rounded">
-                      {part.value}
-                    </span>
-                  );
-                }
-                // Unchanged
-                return <span key={index}>{part.value}</span>;
-              })}
+          ) : (
+            // --- Unified View (Review Mode) ---
+            <div className="p-8 bg-white">
+              <div className="font-serif text-base leading-8 whitespace-pre-wrap text-slate-800 break-words">
+                {renderVirtualRows()}
+              </div>
             </div>
-          </div>
-        )}
+          )}
+        </div>
+        {!mergeChunks && <OverviewRuler scrollRef={contentRef} marks={rulerMarks} />}
       </div>
+
+      {/* Review Result: the original with the accepted changes applied */}
+      {isReviewing && !mergeChunks && (
+        <div className="border-t border-slate-200 bg-slate-50/50">
+          <div className="px-4 py-2 flex items-center justify-between border-b border-slate-100">
+            <h4 className="text-xs uppercase tracking-wide text-slate-400 font-bold select-none">Result</h4>
+            <div className="flex items-center gap-1.5 text-xs">
+              {copyError && <span className="text-red-500 font-medium">{copyError}</span>}
+              <button
+                onClick={handleCopyResult}
+                className="flex items-center gap-1 px-2 py-1 rounded-md border border-slate-200 bg-white text-slate-600 font-medium hover:bg-slate-50"
+              >
+                {copiedResult ? <CheckIcon className="w-3 h-3 text-green-600" /> : <ClipboardDocumentIcon className="w-3 h-3" />}
+                {copiedResult ? 'Copied' : 'Copy'}
+              </button>
+              {onApplyResult && (
+                <button
+                  onClick={() => onApplyResult(resultText)}
+                  className="flex items-center gap-1 px-2 py-1 rounded-md bg-indigo-600 text-white font-medium hover:bg-indigo-700 shadow-sm"
+                  title="Replace the modified text with this result"
+                >
+                  <ArrowRightCircleIcon className="w-3 h-3" /> Send to Modified
+                </button>
+              )}
+            </div>
+          </div>
+          <div className="p-6 font-mono text-sm leading-relaxed whitespace-pre-wrap text-slate-700 break-words max-h-72 overflow-y-auto custom-scrollbar">
+            {resultText}
+          </div>
+        </div>
+      )}
     </div>
   );
 };
\ No newline at end of file
@@ -0,0 +1,79 @@
+import React from 'react';
+import { ChartBarIcon } from '@heroicons/react/24/outline';
+import { ChangeCounts, DiffStats } from '../types';
+import { READABILITY_FIELDS, formatReadabilityDelta } from '../utils/readability';
+
+interface DiffStatsBarProps {
+  stats: DiffStats;
+}
+
+const COUNT_ROWS: { id: 'words' | 'tokens' | 'characters'; label: string }[] = [
+  { id: 'words', label: 'Words' },
+  { id: 'tokens', label: 'Tokens' },
+  { id: 'characters', label: 'Chars' },
+];
+
+const formatPercent = (fraction: number) => `${Math.round(fraction * 1000) / 10}%`;
+
+export const DiffStatsBar: React.FC<DiffStatsBarProps> = ({ stats }) => {
+  const renderMetric = (label: string, value: string, title: string) => (
+    <div className="flex flex-col" title={title}>
+      <span className="text-[10px] font-bold uppercase tracking-wider text-slate-400">{label}</span>
+      <span className="text-sm font-bold text-slate-700 tabular-nums">{value}</span>
+    </div>
+  );
+
+  const renderCounts = (label: string, counts: ChangeCounts) => (
+    <div key={label} className="flex items-center gap-2 tabular-nums">
+      <span className="w-12 text-[10px] font-bold uppercase tracking-wider text-slate-400">{label}</span>
+      <span className="text-green-600 font-medium">+{counts.added.toLocaleString()}</span>
+      <span className="text-red-600 font-medium">−{counts.removed.toLocaleString()}</span>
+      <span className="text-slate-400">{counts.unchanged.toLocaleString()} same</span>
+    </div>
+  );
+
+  const { before, after } = stats.readability;
+  const readabilityFields = READABILITY_FIELDS.filter(field => before[field.id] !== null || after[field.id] !== null);
+
+  const renderReadability = (field: typeof READABILITY_FIELDS[number]) => {
+    const from = before[field.id];
+    const to = after[field.id];
+    return (
+      <div key={field.id} className="flex flex-col" title={field.description}>
+        <span className="text-[10px] font-bold uppercase tracking-wider text-slate-400">{field.label}</span>
+        <span className="text-xs text-slate-700 tabular-nums">
+          {from === null ? '–' : field.format(from)} → {to === null ? '–' : field.format(to)}
+          {from !== null && to !== null && (
+            <span className="ml-1.5 text-slate-400">({formatReadabilityDelta(field.id, from, to)})</span>
+          )}
+        </span>
+      </div>
+    );
+  };
+
+  return (
+    <div className="bg-white border border-slate-200 rounded-xl shadow-sm px-4 py-3 flex flex-wrap items-center gap-x-8 gap-y-3">
+      <div className="flex items-center gap-2">
+        <ChartBarIcon className="w-4 h-4 text-indigo-600" />
+        <h3 className="text-sm font-bold text-slate-700 uppercase tracking-wide">Stats</h3>
+      </div>
+
+      <div className="flex items-center gap-6">
+        {renderMetric('Similarity', formatPercent(stats.similarity), 'Share of both texts left unchanged')}
+        {renderMetric('Edit Distance', stats.editDistance.toFixed(2), 'Character edits relative to the longer text (0 = identical, 1 = entirely different)')}
+        {renderMetric('Rewritten', formatPercent(stats.rewrittenPercent / 100), 'Share of the original that was deleted or replaced')}
+        {renderMetric('Sentences', `${stats.sentences.before} → ${stats.sentences.after}`, 'Sentences in the original and the modified text')}
+      </div>
+
+      <div className="flex flex-col gap-0.5 text-xs">
+        {COUNT_ROWS.map(row => renderCounts(row.label, stats[row.id]))}
+      </div>
+
+      {readabilityFields.length > 0 && (
+        <div className="basis-full flex flex-wrap items-center gap-x-6 gap-y-2 pt-3 border-t border-slate-100">
+          {readabilityFields.map(renderReadability)}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,52 +1,66 @@
 
-import React from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import { ArrowPathIcon, CpuChipIcon, KeyIcon, ClockIcon } from '@heroicons/react/24/outline';
-import { AIProvider } from '../types';
+import { ProviderModel, StoredKey } from '../types';
+import { getProvider } from '../services/providers';
 
 interface HeaderProps {
   selectedModel: string;
   onModelChange: (model: string) => void;
   onOpenSettings: () => void;
   onOpenHistory: () => void;
-  activeProvider?: AIProvider;
+  activeKey?: StoredKey; // Decides which provider's models are offered
 }
 
-export const Header: React.FC<HeaderProps> = ({ selectedModel, onModelChange, onOpenSettings, onOpenHistory, activeProvider = 'google' }) => {
+export const Header: React.FC<HeaderProps> = ({ selectedModel, onModelChange, onOpenSettings, onOpenHistory, activeKey }) => {
   
-  const renderModelOptions = () => {
-    switch(activeProvider) {
-      case 'openai':
-        return (
-          <>
-            <option value="gpt-4o">GPT-4o (Best)</option>
-            <option value="gpt-4-turbo">GPT-4 Turbo</option>
-            <option value="gpt-3.5-turbo">GPT-3.5 Turbo (Fast)</option>
-          </>
-        );
-      case 'deepseek':
-        return (
-          <>
-            <option value="deepseek-chat">DeepSeek V3 (Chat)</option>
-            <option value="deepseek-reasoner">DeepSeek R1 (Reasoner)</option>
-          </>
-        );
-      case 'custom':
-        return (
-           <>
-            <option value="gpt-4o">GPT-4o Compatible</option>
-            <option value="gpt-3.5-turbo">GPT-3.5 Compatible</option>
-           </>
-        );
-      case 'google':
-      default:
-        return (
-          <>
-            <option value="gemini-2.5-flash">Gemini 2.5 Flash (Fast & Free)</option>
-            <option value="gemini-3-pro-preview">Gemini 3.0 Pro (High Intelligence)</option>
-          </>
-        );
-    }
-  };
+  const provider = getProvider(activeKey?.provider);
+  const [models, setModels] = useState<ProviderModel[]>(provider.models);
+  const [modelError, setModelError] = useState('');
+
+  // The selection when discovery finishes, rather than when it started
+  const selectedModelRef = useRef(selectedModel);
+  selectedModelRef.current = selectedModel;
+
+  // Providers that discover models are asked for them whenever the key changes
+  useEffect(() => {
+    setModels(provider.models);
+    setModelError('');
+    if (!activeKey || !provider.capabilities.discoversModels) return;
+    let isCurrent = true;
+
+    // Without a usable list, drop a selection the provider does not offer
+    const keepBuiltIn = (message: string) => {
+      setModelError(message);
+      if (!provider.models.some(m => m.id === selectedModelRef.current)) onModelChange(provider.defaults.model);
+    };
+
+    provider.listModels(activeKey)
+      .then(list => {
+        if (!isCurrent) return;
+        if (list.length === 0) {
+          keepBuiltIn('No models found on the server.');
+          return;
+        }
+        setModels(list);
+        if (!list.some(m => m.id === selectedModelRef.current)) onModelChange(list[0].id);
+      })
+      .catch((error: any) => {
+        if (isCurrent) keepBuiltIn(error?.message || 'Could not load the models.');
+      });
+    return () => { isCurrent = false; };
+  }, [activeKey, provider]);
+
+  const renderModelOptions = () => (
+    <>
+      {!selectedModel && models.length === 0 && <option value="">No models found</option>}
+      {models.map(m => <option key={m.id} value={m.id}>{m.label}</option>)}
+      {/* A model picked elsewhere (e.g. restored with a key) stays selectable */}
+      {selectedModel && !models.some(m => m.id === selectedModel) && (
+        <option value={selectedModel}>{selectedModel}</option>
+      )}
+    </>
+  );
 
   return (
     <header className="bg-white border-b border-slate-200 sticky top-0 z-30">
@@ -71,6 +85,11 @@ export const Header: React.FC<HeaderProps> = ({ selectedModel, onModelChange, on
             >
               {renderModelOptions()}
             </select>
+            {modelError && (
+              <span className="text-xs font-medium text-red-500 max-w-[200px] truncate" title={modelError}>
+                {modelError}
+              </span>
+            )}
           </div>
 
           {/* History Button */}
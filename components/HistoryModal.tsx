@@ -1,5 +1,5 @@
 
-import React from 'react';
+import React, { useState } from 'react';
 import { XMarkIcon, ClockIcon, TrashIcon, ArrowPathIcon, ClipboardDocumentIcon } from '@heroicons/react/24/outline';
 import { HistoryItem } from '../types';
 
@@ -12,6 +12,11 @@ interface HistoryModalProps {
   onClearAll: () => void;
 }
 
+type HistorySort = 'newest' | 'most-changed' | 'least-changed';
+
+// Items saved before statistics existed sort after the rest
+const changeMagnitude = (item: HistoryItem) => item.stats?.editDistance;
+
 export const HistoryModal: React.FC<HistoryModalProps> = ({
   isOpen,
   onClose,
@@ -20,8 +25,19 @@ export const HistoryModal: React.FC<HistoryModalProps> = ({
   onDelete,
   onClearAll
 }) => {
+  const [sort, setSort] = useState<HistorySort>('newest');
+
   if (!isOpen) return null;
 
+  const sortedHistory = sort === 'newest'
+    ? history
+    : [...history].sort((a, b) => {
+        const ma = changeMagnitude(a);
+        const mb = changeMagnitude(b);
+        if (ma === undefined || mb === undefined) return ma === undefined ? (mb === undefined ? 0 : 1) : -1;
+        return sort === 'most-changed' ? mb - ma : ma - mb;
+      });
+
   const formatDate = (timestamp: number) => {
     return new Intl.DateTimeFormat('en-US', {
       month: 'short',
@@ -64,6 +80,22 @@ export const HistoryModal: React.FC<HistoryModalProps> = ({
           </button>
         </div>
 
+        {/* Sort */}
+        {history.length > 1 && (
+          <div className="px-6 py-2 border-b border-slate-100 flex items-center justify-end gap-2 text-xs">
+            <span className="font-bold text-slate-400 uppercase tracking-wider">Sort</span>
+            <select
+              value={sort}
+              onChange={(e) => setSort(e.target.value as HistorySort)}
+              className="bg-white border border-slate-300 text-slate-700 rounded-md px-2 py-1 focus:ring-2 focus:ring-indigo-500 focus:outline-none cursor-pointer"
+            >
+              <option value="newest">Newest first</option>
+              <option value="most-changed">Most changed</option>
+              <option value="least-changed">Least changed</option>
+            </select>
+          </div>
+        )}
+
         {/* Content */}
         <div className="flex-1 overflow-y-auto custom-scrollbar p-4 space-y-4 bg-slate-50/30">
           {history.length === 0 ? (
@@ -73,15 +105,35 @@ export const HistoryModal: React.FC<HistoryModalProps> = ({
               <p className="text-xs mt-1">Start an analysis to save it automatically.</p>
             </div>
           ) : (
-            history.map((item) => (
+            sortedHistory.map((item) => (
               <div 
                 key={item.id} 
                 className="bg-white border border-slate-200 rounded-xl p-4 hover:shadow-md transition-shadow group relative"
               >
                 <div className="flex justify-between items-start mb-2">
-                  <span className="text-[10px] font-bold uppercase tracking-wider text-slate-400 bg-slate-50 px-2 py-0.5 rounded">
-                    {formatDate(item.timestamp)}
-                  </span>
+                  <div className="flex items-center gap-1.5">
+                    <span className="text-[10px] font-bold uppercase tracking-wider text-slate-400 bg-slate-50 px-2 py-0.5 rounded">
+                      {formatDate(item.timestamp)}
+                    </span>
+                    {item.baseText !== undefined && (
+                      <span className="text-[10px] font-bold uppercase tracking-wider px-2 py-0.5 rounded border bg-amber-50 text-amber-600 border-amber-100">
+                        3-Way
+                      </span>
+                    )}
+                    {item.revisions && (
+                      <span className="text-[10px] font-bold uppercase tracking-wider px-2 py-0.5 rounded border bg-sky-50 text-sky-600 border-sky-100">
+                        {item.revisions.length} Drafts
+                      </span>
+                    )}
+                    {item.stats && (
+                      <span
+                        className="text-[10px] font-bold uppercase tracking-wider px-2 py-0.5 rounded border bg-rose-50 text-rose-600 border-rose-100"
+                        title={`Similarity ${Math.round(item.stats.similarity * 100)}%, edit distance ${item.stats.editDistance.toFixed(2)}`}
+                      >
+                        {Math.round(item.stats.rewrittenPercent)}% Rewritten
+                      </span>
+                    )}
+                  </div>
                   <span className={`text-[10px] font-bold uppercase tracking-wider px-2 py-0.5 rounded border ${
                     item.persona.id === 'general' ? 'bg-slate-50 text-slate-500 border-slate-100' : 'bg-indigo-50 text-indigo-600 border-indigo-100'
                   }`}>
@@ -0,0 +1,256 @@
+import React, { useState } from 'react';
+import { XMarkIcon, FunnelIcon, PlusIcon, TrashIcon } from '@heroicons/react/24/outline';
+import { IgnoreRule, IgnoreRuleSet } from '../types';
+import { IGNORE_RULE_PRESETS, compileIgnoreRule } from '../utils/ignoreRules';
+
+interface IgnoreRulesModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  ruleSets: IgnoreRuleSet[];
+  setRuleSets: (ruleSets: IgnoreRuleSet[]) => void;
+}
+
+export const IgnoreRulesModal: React.FC<IgnoreRulesModalProps> = ({ isOpen, onClose, ruleSets, setRuleSets }) => {
+  const [newSetName, setNewSetName] = useState('');
+
+  // Add Rule Form State (one open form at a time)
+  const [editingSetId, setEditingSetId] = useState<string | null>(null);
+  const [ruleName, setRuleName] = useState('');
+  const [pattern, setPattern] = useState('');
+  const [ignoreCase, setIgnoreCase] = useState(false);
+
+  if (!isOpen) return null;
+
+  const compiled = pattern ? compileIgnoreRule({ pattern }) : null;
+  const patternError = typeof compiled === 'string' ? compiled : '';
+
+  const resetRuleForm = () => {
+    setEditingSetId(null);
+    setRuleName('');
+    setPattern('');
+    setIgnoreCase(false);
+  };
+
+  const updateSet = (id: string, update: (set: IgnoreRuleSet) => IgnoreRuleSet) => {
+    setRuleSets(ruleSets.map(s => (s.id === id ? update(s) : s)));
+  };
+
+  const handleAddSet = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newSetName.trim()) return;
+    const newSet: IgnoreRuleSet = {
+      id: crypto.randomUUID(),
+      name: newSetName.trim(),
+      rules: [],
+      isEnabled: true
+    };
+    setRuleSets([...ruleSets, newSet]);
+    setNewSetName('');
+    setEditingSetId(newSet.id);
+  };
+
+  const handleDeleteSet = (id: string) => {
+    if (!confirm('Delete this rule set?')) return;
+    setRuleSets(ruleSets.filter(s => s.id !== id));
+    if (editingSetId === id) resetRuleForm();
+  };
+
+  const handleAddRule = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!editingSetId || !ruleName.trim() || !pattern || patternError) return;
+    const rule: IgnoreRule = {
+      id: crypto.randomUUID(),
+      name: ruleName.trim(),
+      pattern,
+      flags: ignoreCase ? 'i' : undefined
+    };
+    updateSet(editingSetId, s => ({ ...s, rules: [...s.rules, rule] }));
+    resetRuleForm();
+  };
+
+  const handleDeleteRule = (setId: string, ruleId: string) => {
+    updateSet(setId, s => ({ ...s, rules: s.rules.filter(r => r.id !== ruleId) }));
+  };
+
+  const handlePreset = (index: string) => {
+    const preset = IGNORE_RULE_PRESETS[Number(index)];
+    if (!preset) return;
+    setRuleName(preset.name);
+    setPattern(preset.pattern);
+    setIgnoreCase(preset.flags === 'i');
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-900/50 backdrop-blur-sm p-4">
+      <div className="bg-white rounded-xl shadow-2xl w-full max-w-lg overflow-hidden border border-slate-100 flex flex-col max-h-[90vh]">
+        {/* Header */}
+        <div className="bg-indigo-600 px-6 py-4 flex items-center justify-between flex-shrink-0">
+          <div className="flex items-center gap-3">
+            <div className="p-2 bg-white/20 rounded-lg">
+              <FunnelIcon className="w-6 h-6 text-white" />
+            </div>
+            <h3 className="text-lg font-bold text-white">Ignore Rules</h3>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-white/70 hover:text-white transition-colors p-1 rounded-md hover:bg-white/10"
+            type="button"
+          >
+            <XMarkIcon className="w-6 h-6" />
+          </button>
+        </div>
+
+        {/* Body */}
+        <div className="p-6 overflow-y-auto custom-scrollbar space-y-4">
+          <p className="text-xs text-slate-500">
+            Text matching an enabled rule is compared as a placeholder, so changes only inside matches
+            (timestamps, version numbers, ticket IDs...) are not highlighted.
+          </p>
+
+          {ruleSets.length === 0 && (
+            <div className="text-center text-sm text-slate-400 py-6 border border-dashed border-slate-200 rounded-lg">
+              No rule sets yet. Create one below.
+            </div>
+          )}
+
+          {ruleSets.map(set => (
+            <div
+              key={set.id}
+              className={`rounded-lg border ${set.isEnabled ? 'border-indigo-200 bg-indigo-50/40' : 'border-slate-200'}`}
+            >
+              <div className="flex items-center justify-between px-3 py-2 border-b border-slate-100">
+                <label className="flex items-center gap-2 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={set.isEnabled}
+                    onChange={() => updateSet(set.id, s => ({ ...s, isEnabled: !s.isEnabled }))}
+                    className="rounded border-slate-300 text-indigo-600 focus:ring-indigo-500"
+                  />
+                  <span className="font-medium text-slate-800 text-sm">{set.name}</span>
+                  <span className="text-[10px] uppercase font-bold px-1.5 py-0.5 rounded bg-slate-100 text-slate-500">
+                    {set.rules.length} rules
+                  </span>
+                </label>
+                <button
+                  onClick={() => handleDeleteSet(set.id)}
+                  className="p-1.5 text-slate-400 hover:text-red-600 transition-colors"
+                  title="Delete Rule Set"
+                >
+                  <TrashIcon className="w-4 h-4" />
+                </button>
+              </div>
+
+              <div className="p-3 space-y-2">
+                {set.rules.map(rule => (
+                  <div key={rule.id} className="flex items-center justify-between gap-2 bg-white border border-slate-100 rounded-md px-2.5 py-1.5">
+                    <div className="min-w-0">
+                      <div className="text-xs font-medium text-slate-700">{rule.name}</div>
+                      <div className="text-[11px] text-slate-400 font-mono truncate">
+                        /{rule.pattern}/{rule.flags || ''}
+                      </div>
+                    </div>
+                    <button
+                      onClick={() => handleDeleteRule(set.id, rule.id)}
+                      className="p-1 text-slate-300 hover:text-red-600 transition-colors flex-shrink-0"
+                      title="Delete Rule"
+                    >
+                      <XMarkIcon className="w-4 h-4" />
+                    </button>
+                  </div>
+                ))}
+
+                {editingSetId === set.id ? (
+                  <form onSubmit={handleAddRule} className="space-y-2 bg-white border border-slate-200 rounded-md p-3">
+                    <select
+                      value=""
+                      onChange={(e) => handlePreset(e.target.value)}
+                      className="w-full px-3 py-2 rounded-lg border border-slate-300 focus:ring-2 focus:ring-indigo-500 outline-none text-xs bg-white"
+                    >
+                      <option value="">Start from a preset...</option>
+                      {IGNORE_RULE_PRESETS.map((p, i) => (
+                        <option key={p.name} value={i}>{p.name}</option>
+                      ))}
+                    </select>
+                    <input
+                      type="text"
+                      value={ruleName}
+                      onChange={(e) => setRuleName(e.target.value)}
+                      placeholder="Rule name, e.g. Build Timestamp"
+                      className="w-full px-3 py-2 rounded-lg border border-slate-300 focus:ring-2 focus:ring-indigo-500 outline-none text-sm"
+                    />
+                    <input
+                      type="text"
+                      value={pattern}
+                      onChange={(e) => setPattern(e.target.value)}
+                      placeholder="Regular expression, e.g. \d{4}-\d{2}-\d{2}"
+                      className={`w-full px-3 py-2 rounded-lg border focus:ring-2 focus:ring-indigo-500 outline-none font-mono text-sm ${
+                        patternError ? 'border-red-300' : 'border-slate-300'
+                      }`}
+                    />
+                    {patternError && <p className="text-xs text-red-500 font-medium">{patternError}</p>}
+                    <label className="flex items-center gap-2 text-xs text-slate-600">
+                      <input
+                        type="checkbox"
+                        checked={ignoreCase}
+                        onChange={(e) => setIgnoreCase(e.target.checked)}
+                        className="rounded border-slate-300 text-indigo-600 focus:ring-indigo-500"
+                      />
+                      Case-insensitive
+                    </label>
+                    <div className="flex gap-2 pt-1">
+                      <button
+                        type="button"
+                        onClick={resetRuleForm}
+                        className="flex-1 px-3 py-2 border border-slate-300 text-slate-700 text-xs font-medium rounded-lg hover:bg-slate-50 transition-colors"
+                      >
+                        Cancel
+                      </button>
+                      <button
+                        type="submit"
+                        disabled={!ruleName.trim() || !pattern || !!patternError}
+                        className="flex-1 px-3 py-2 bg-indigo-600 text-white text-xs font-bold rounded-lg hover:bg-indigo-700 shadow-sm disabled:opacity-50"
+                      >
+                        Add Rule
+                      </button>
+                    </div>
+                  </form>
+                ) : (
+                  <button
+                    onClick={() => { resetRuleForm(); setEditingSetId(set.id); }}
+                    className="text-xs flex items-center gap-1 text-indigo-600 font-medium hover:text-indigo-800"
+                  >
+                    <PlusIcon className="w-3 h-3" /> Add Rule
+                  </button>
+                )}
+              </div>
+            </div>
+          ))}
+
+          {/* New Rule Set */}
+          <form onSubmit={handleAddSet} className="flex gap-2 pt-2">
+            <input
+              type="text"
+              value={newSetName}
+              onChange={(e) => setNewSetName(e.target.value)}
+              placeholder="New rule set, e.g. Nightly Reports"
+              className="flex-1 px-4 py-2.5 rounded-lg border border-slate-300 focus:ring-2 focus:ring-indigo-500 outline-none text-sm"
+            />
+            <button
+              type="submit"
+              disabled={!newSetName.trim()}
+              className="flex items-center gap-1 px-4 py-2.5 bg-indigo-600 text-white text-sm font-bold rounded-lg hover:bg-indigo-700 shadow-sm disabled:opacity-50"
+            >
+              <PlusIcon className="w-4 h-4" /> Create
+            </button>
+          </form>
+
+          <div className="mt-2 pt-4 border-t border-slate-100">
+            <p className="text-xs text-slate-400 text-center">
+              Rule sets are stored locally in your browser.
+            </p>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
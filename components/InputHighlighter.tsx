@@ -1,5 +1,9 @@
-import React, { useRef, useEffect } from 'react';
-import { DiffPart } from '../types';
+import React, { useRef, useEffect, useLayoutEffect, useMemo, useState } from 'react';
+import { DiffPart, FocusRange, OverviewMark } from '../types';
+import { splitReplacement } from '../utils/replacements';
+import { sideText, slicePart } from '../utils/partSlice';
+import { changeRanges, mergeMarks } from '../utils/overview';
+import { OverviewRuler } from './OverviewRuler';
 
 interface InputHighlighterProps {
   text: string;
@@ -7,23 +11,150 @@ interface InputHighlighterProps {
   diffParts: DiffPart[];
   type: 'original' | 'modified';
   placeholder?: string;
+  focusRange?: FocusRange; // Selects this range and scrolls it into view
 }
 
+// Larger diffs only highlight the text around the viewport; the rest of the
+// backdrop is plain text, which keeps the layout identical at a fraction of the DOM
+const MAX_FULL_BACKDROP_PARTS = 400;
+// Changes closer than this share of the text are drawn as one ruler mark
+const RULER_MIN_GAP = 0.002;
+
+/**
+ * Vertical position of a character offset within the backdrop's content,
+ * which is laid out exactly like the textarea's.
+ */
+const measureOffsetTop = (container: HTMLElement, offset: number): number | null => {
+  const walker = document.createTreeWalker(container, NodeFilter.SHOW_TEXT);
+  let remaining = offset;
+  let node: Node | null;
+  while ((node = walker.nextNode())) {
+    const length = node.textContent?.length ?? 0;
+    if (remaining <= length) {
+      // Measure a real character; a collapsed range may report no position
+      const start = Math.min(remaining, Math.max(0, length - 1));
+      const range = document.createRange();
+      range.setStart(node, start);
+      range.setEnd(node, Math.min(start + 1, length));
+      return range.getBoundingClientRect().top - container.getBoundingClientRect().top + container.scrollTop;
+    }
+    remaining -= length;
+  }
+  return null;
+};
+
+// First character offset at or below `y` in the backdrop's content
+const offsetAtTop = (container: HTMLElement, y: number, length: number) => {
+  let lo = 0;
+  let hi = length;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if ((measureOffsetTop(container, mid) ?? y) < y) lo = mid + 1;
+    else hi = mid;
+  }
+  return lo;
+};
+
+// Replaced text with a stronger highlight on the characters that changed
+const renderReplacement = (part: DiffPart, changedClassName: string) =>
+  part.inner
+    ? splitReplacement(part).map((segment, i) =>
+        segment.changed
+          ? <span key={i} className={changedClassName}>{segment.value}</span>
+          : <React.Fragment key={i}>{segment.value}</React.Fragment>
+      )
+    : part.value;
+
 export const InputHighlighter: React.FC<InputHighlighterProps> = ({
   text,
   onChange,
   diffParts,
   type,
-  placeholder
+  placeholder,
+  focusRange
 }) => {
   const textareaRef = useRef<HTMLTextAreaElement>(null);
   const backdropRef = useRef<HTMLDivElement>(null);
 
+  // Parts on this side with their character range in the text
+  const sideParts = useMemo(() => {
+    let offset = 0;
+    return diffParts
+      .filter(part => (type === 'original' ? !part.added : !part.removed))
+      .map(part => {
+        const start = offset;
+        offset += sideText(part, type).length;
+        return { part, start, end: offset };
+      });
+  }, [diffParts, type]);
+
+  // While a new diff is still being computed the parts describe an older text;
+  // highlighting them would misalign with what is in the textarea.
+  const isStale = useMemo(
+    () => sideParts.map(({ part }) => sideText(part, type)).join('') !== text,
+    [sideParts, text, type]
+  );
+
+  // --- Windowed Highlighting: character range highlighted on large diffs ---
+  const isWindowed = sideParts.length > MAX_FULL_BACKDROP_PARTS;
+  const [highlightWindow, setHighlightWindow] = useState<[number, number]>([0, 0]);
+
+  // Moves the window once the viewport nears its edges, keeping a screen of
+  // highlighted text above and below
+  const updateHighlightWindow = () => {
+    const textarea = textareaRef.current;
+    const backdrop = backdropRef.current;
+    if (!isWindowed || isStale || !textarea || !backdrop) return;
+    const top = textarea.scrollTop;
+    const height = textarea.clientHeight;
+    const [start, end] = highlightWindow;
+    if (
+      start <= offsetAtTop(backdrop, top - height / 2, text.length) &&
+      end >= offsetAtTop(backdrop, top + height * 1.5, text.length)
+    ) {
+      return;
+    }
+    setHighlightWindow([
+      offsetAtTop(backdrop, top - height, text.length),
+      offsetAtTop(backdrop, top + height * 2, text.length),
+    ]);
+  };
+
+  useLayoutEffect(() => {
+    updateHighlightWindow();
+  }, [sideParts, isStale]);
+
+  // --- Overview Ruler: changes placed where the backdrop, laid out like the textarea, shows them ---
+  const [rulerMarks, setRulerMarks] = useState<OverviewMark[]>([]);
+
+  const measureRulerMarks = () => {
+    const backdrop = backdropRef.current;
+    if (!backdrop || isStale) return;
+    const height = backdrop.scrollHeight || 1;
+    const lineHeight = parseFloat(getComputedStyle(backdrop).lineHeight) || 0;
+    const ranges = mergeMarks(changeRanges(diffParts, type), Math.ceil(text.length * RULER_MIN_GAP));
+    setRulerMarks(ranges.map(({ kind, start, end }) => ({
+      kind,
+      start: (measureOffsetTop(backdrop, start) ?? 0) / height,
+      end: ((measureOffsetTop(backdrop, end - 1) ?? height) + lineHeight) / height,
+    })));
+  };
+
+  // Measured again whenever wrapping may have changed
+  useLayoutEffect(() => {
+    const backdrop = backdropRef.current;
+    if (!backdrop) return;
+    const observer = new ResizeObserver(measureRulerMarks);
+    observer.observe(backdrop);
+    return () => observer.disconnect();
+  }, [sideParts, isStale]);
+
   // Sync scroll position of backdrop with textarea
   const handleScroll = () => {
     if (textareaRef.current && backdropRef.current) {
       backdropRef.current.scrollTop = textareaRef.current.scrollTop;
       backdropRef.current.scrollLeft = textareaRef.current.scrollLeft;
+      updateHighlightWindow();
     }
   };
 
@@ -32,32 +163,62 @@ export const InputHighlighter: React.FC<InputHighlighterProps> = ({
     handleScroll();
   }, [text]);
 
-  const renderBackdrop = () => {
-    return diffParts.map((part, index) => {
-      if (type === 'original') {
-        // In original view: Highlight things that were removed (i.e., exist here but not in modified)
-        if (part.added) return null; // 'Added' parts don't exist in original text
-        if (part.removed) {
-          return (
-            <span key={index} className="bg-red-100 rounded-[2px]">
-              {part.value}
-            </span>
-          );
-        }
-        return <span key={index}>{part.value}</span>;
-      } else {
-        // In modified view: Highlight things that were added (i.e., exist here but not in original)
-        if (part.removed) return null; // 'Removed' parts don't exist in modified text
-        if (part.added) {
-          return (
-            <span key={index} className="bg-green-100 rounded-[2px]">
-              {part.value}
-            </span>
-          );
-        }
-        return <span key={index}>{part.value}</span>;
+  // Place the caret on the requested range and scroll it to the middle. The
+  // textarea is not focused, so keyboard navigation elsewhere keeps working.
+  useEffect(() => {
+    const textarea = textareaRef.current;
+    const backdrop = backdropRef.current;
+    if (!focusRange || !textarea || !backdrop) return;
+    textarea.setSelectionRange(focusRange.start, focusRange.end);
+    const top = measureOffsetTop(backdrop, focusRange.start);
+    if (top !== null) {
+      textarea.scrollTo({ top: top - textarea.clientHeight / 2, behavior: 'smooth' });
+    }
+  }, [focusRange?.key]);
+
+  const renderPart = (part: DiffPart, key: React.Key) => {
+    if (type === 'original') {
+      // In original view: Highlight things that were removed (i.e., exist here but not in modified)
+      if (part.removed) {
+        return (
+          <span key={key} className={`${part.moved ? 'bg-violet-100' : 'bg-red-100'} rounded-[2px]`}>
+            {renderReplacement(part, 'bg-red-200')}
+          </span>
+        );
+      }
+      return <span key={key}>{part.value}</span>;
+    } else {
+      // In modified view: Highlight things that were added (i.e., exist here but not in original)
+      if (part.added) {
+        return (
+          <span key={key} className={`${part.moved ? 'bg-violet-100' : 'bg-green-100'} rounded-[2px]`}>
+            {renderReplacement(part, 'bg-green-200')}
+          </span>
+        );
       }
-    });
+      return <span key={key}>{part.newValue ?? part.value}</span>;
+    }
+  };
+
+  const renderBackdrop = () => {
+    if (isStale) return text;
+    if (!isWindowed) return sideParts.map(({ part }, index) => renderPart(part, index));
+
+    // Plain text around the highlighted window, with the parts inside it sliced to fit
+    const start = Math.min(highlightWindow[0], text.length);
+    const end = Math.min(Math.max(highlightWindow[1], start), text.length);
+    return (
+      <>
+        {text.slice(0, start)}
+        {sideParts
+          .filter(p => p.end > start && p.start < end)
+          .map(p => renderPart(
+            slicePart(p.part, type, Math.max(start, p.start) - p.start, Math.min(end, p.end) - p.start),
+            p.start
+          ))}
+        {text.slice(end)}
+      </>
+    );
   };
 
   const themeClass = type === 'original' 
@@ -65,28 +226,31 @@ export const InputHighlighter: React.FC<InputHighlighterProps> = ({
     : 'text-green-900/90 caret-green-600 placeholder:text-green-300';
 
   return (
-    <div className="relative w-full h-full font-mono text-sm">
-      {/* Backdrop Layer (Highlights) */}
-      <div
-        ref={backdropRef}
-        className="absolute inset-0 p-4 whitespace-pre-wrap break-words pointer-events-none overflow-hidden text-transparent z-0 leading-relaxed"
-        aria-hidden="true"
-      >
-        {renderBackdrop()}
-        {/* Trailing break to ensure height matches when text ends with newline */}
-        {text.endsWith('\n') && <br />}
-      </div>
+    <div className="flex w-full h-full font-mono text-sm">
+      <div className="relative flex-1 min-w-0 h-full">
+        {/* Backdrop Layer (Highlights) */}
+        <div
+          ref={backdropRef}
+          className="absolute inset-0 p-4 whitespace-pre-wrap break-words pointer-events-none overflow-hidden text-transparent z-0 leading-relaxed"
+          aria-hidden="true"
+        >
+          {renderBackdrop()}
+          {/* Trailing break to ensure height matches when text ends with newline */}
+          {text.endsWith('\n') && <br />}
+        </div>
 
-      {/* Foreground Layer (Input) */}
-      <textarea
-        ref={textareaRef}
-        value={text}
-        onChange={(e) => onChange(e.target.value)}
-        onScroll={handleScroll}
-        placeholder={placeholder}
-        className={`absolute inset-0 w-full h-full p-4 bg-transparent border-none resize-none focus:ring-0 focus:outline-none leading-relaxed transition-colors ${themeClass}`}
-        spellCheck={false}
-      />
+        {/* Foreground Layer (Input) */}
+        <textarea
+          ref={textareaRef}
+          value={text}
+          onChange={(e) => onChange(e.target.value)}
+          onScroll={handleScroll}
+          placeholder={placeholder}
+          className={`absolute inset-0 w-full h-full p-4 bg-transparent border-none resize-none focus:ring-0 focus:outline-none leading-relaxed transition-colors ${themeClass}`}
+          spellCheck={false}
+        />
+      </div>
+      <OverviewRuler scrollRef={textareaRef} marks={rulerMarks} />
     </div>
   );
 };
\ No newline at end of file
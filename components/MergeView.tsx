@@ -0,0 +1,211 @@
+import React, { useMemo, useState } from 'react';
+import { ClipboardDocumentIcon, CheckIcon, PencilSquareIcon, ArrowUturnLeftIcon } from '@heroicons/react/24/outline';
+import { Diff3Chunk, ConflictResolution } from '../types';
+import { resolveChunk } from '../utils/diffEngine';
+
+interface MergeViewProps {
+  chunks: Diff3Chunk[];
+}
+
+interface Resolution {
+  choice: ConflictResolution;
+  text?: string; // Hand-edited text for 'custom'
+}
+
+const RESOLUTION_LABELS: Record<ConflictResolution, string> = {
+  a: 'Kept A',
+  b: 'Kept B',
+  both: 'Kept both',
+  custom: 'Edited',
+};
+
+// Conflicts are keyed by content so resolutions survive edits elsewhere in the texts
+const conflictKey = (chunk: Diff3Chunk) => `${chunk.base}\u0000${chunk.a}\u0000${chunk.b}`;
+
+export const MergeView: React.FC<MergeViewProps> = ({ chunks }) => {
+  const [resolutions, setResolutions] = useState<Record<string, Resolution>>({});
+  const [editingKey, setEditingKey] = useState<string | null>(null);
+  const [draft, setDraft] = useState('');
+  const [copied, setCopied] = useState(false);
+  const [copyError, setCopyError] = useState('');
+
+  const conflicts = chunks.filter(c => c.kind === 'conflict');
+  const resolvedCount = conflicts.filter(c => resolutions[conflictKey(c)]).length;
+
+  const mergedText = useMemo(
+    () => chunks.map(c => {
+      const resolution = resolutions[conflictKey(c)];
+      return resolveChunk(c, resolution?.choice, resolution?.text);
+    }).join(''),
+    [chunks, resolutions]
+  );
+
+  const resolve = (key: string, resolution: Resolution | null) => {
+    setResolutions(prev => {
+      const next = { ...prev };
+      if (resolution) next[key] = resolution;
+      else delete next[key];
+      return next;
+    });
+    setEditingKey(null);
+  };
+
+  const startEditing = (chunk: Diff3Chunk) => {
+    const key = conflictKey(chunk);
+    const current = resolutions[key];
+    setDraft(current ? resolveChunk(chunk, current.choice, current.text) : chunk.a);
+    setEditingKey(key);
+  };
+
+  const handleCopy = async () => {
+    setCopyError('');
+    try {
+      await navigator.clipboard.writeText(mergedText);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (error: any) {
+      setCopyError(error?.message || 'Could not copy to the clipboard.');
+    }
+  };
+
+  const renderConflict = (chunk: Diff3Chunk, index: number) => {
+    const key = conflictKey(chunk);
+    const resolution = resolutions[key];
+
+    if (resolution && editingKey !== key) {
+      return (
+        <span key={index} className="bg-indigo-50 text-indigo-900 rounded-[2px] px-0.5">
+          {resolveChunk(chunk, resolution.choice, resolution.text)}
+          <button
+            type="button"
+            onClick={() => resolve(key, null)}
+            className="inline-flex items-center gap-0.5 align-middle mx-0.5 px-1 rounded text-[10px] leading-4 font-sans font-bold bg-indigo-100 text-indigo-700 hover:bg-indigo-200 select-none"
+            title="Reopen this conflict"
+          >
+            <ArrowUturnLeftIcon className="w-3 h-3" />
+            {RESOLUTION_LABELS[resolution.choice]}
+          </button>
+        </span>
+      );
+    }
+
+    return (
+      <div key={index} className="my-2 rounded-lg border border-rose-200 bg-rose-50/40 overflow-hidden font-sans whitespace-normal">
+        <div className="px-3 py-1.5 border-b border-rose-100 flex items-center justify-between gap-2">
+          <span className="text-[10px] font-bold uppercase tracking-wider text-rose-600">Conflict</span>
+          {editingKey !== key && (
+            <div className="flex gap-1 text-xs">
+              <button onClick={() => resolve(key, { choice: 'a' })} className="px-2 py-1 rounded-md border border-sky-200 bg-white text-sky-700 font-medium hover:bg-sky-50">Use A</button>
+              <button onClick={() => resolve(key, { choice: 'b' })} className="px-2 py-1 rounded-md border border-amber-200 bg-white text-amber-700 font-medium hover:bg-amber-50">Use B</button>
+              <button onClick={() => resolve(key, { choice: 'both' })} className="px-2 py-1 rounded-md border border-slate-200 bg-white text-slate-600 font-medium hover:bg-slate-50">Both</button>
+              <button
+                onClick={() => startEditing(chunk)}
+                className="flex items-center gap-1 px-2 py-1 rounded-md border border-slate-200 bg-white text-slate-600 font-medium hover:bg-slate-50"
+              >
+                <PencilSquareIcon className="w-3 h-3" /> Edit
+              </button>
+            </div>
+          )}
+        </div>
+
+        {editingKey === key ? (
+          <div className="p-3 space-y-2">
+            <textarea
+              value={draft}
+              onChange={(e) => setDraft(e.target.value)}
+              rows={3}
+              autoFocus
+              className="w-full px-3 py-2 rounded-lg border border-slate-300 focus:ring-2 focus:ring-indigo-500 outline-none font-mono text-sm"
+            />
+            <div className="flex justify-end gap-2 text-xs">
+              <button
+                onClick={() => setEditingKey(null)}
+                className="px-3 py-1.5 border border-slate-300 text-slate-700 font-medium rounded-lg hover:bg-slate-50"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={() => resolve(key, { choice: 'custom', text: draft })}
+                className="px-3 py-1.5 bg-indigo-600 text-white font-bold rounded-lg hover:bg-indigo-700 shadow-sm"
+              >
+                Apply
+              </button>
+            </div>
+          </div>
+        ) : (
+          <div className="grid grid-cols-2 divide-x divide-rose-100 font-mono text-sm whitespace-pre-wrap break-words">
+            <div className="p-3">
+              <div className="text-[10px] font-sans font-bold uppercase tracking-wider text-sky-600 mb-1">Version A</div>
+              <span className="bg-sky-100 text-sky-900 rounded-[2px] px-0.5">{chunk.a || '(deleted)'}</span>
+            </div>
+            <div className="p-3">
+              <div className="text-[10px] font-sans font-bold uppercase tracking-wider text-amber-600 mb-1">Version B</div>
+              <span className="bg-amber-100 text-amber-900 rounded-[2px] px-0.5">{chunk.b || '(deleted)'}</span>
+            </div>
+          </div>
+        )}
+        {chunk.base && (
+          <div className="px-3 py-1.5 border-t border-rose-100 text-xs text-slate-400 truncate" title={chunk.base}>
+            Base: <span className="font-mono">{chunk.base}</span>
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="bg-white">
+      {/* Merge Summary */}
+      <div className="px-6 py-3 border-b border-slate-100 flex flex-wrap items-center justify-between gap-3 text-xs">
+        <div className="flex items-center gap-3 font-medium">
+          <span className={conflicts.length > resolvedCount ? 'text-rose-600 font-bold' : 'text-emerald-600 font-bold'}>
+            {conflicts.length === 0
+              ? 'Merges cleanly'
+              : `${resolvedCount} of ${conflicts.length} conflicts resolved`}
+          </span>
+          <div className="flex items-center gap-1.5">
+            <span className="w-2 h-2 rounded-full bg-sky-500"></span>
+            <span className="text-slate-500">From A</span>
+          </div>
+          <div className="flex items-center gap-1.5">
+            <span className="w-2 h-2 rounded-full bg-amber-500"></span>
+            <span className="text-slate-500">From B</span>
+          </div>
+          <div className="flex items-center gap-1.5">
+            <span className="w-2 h-2 rounded-full bg-emerald-500"></span>
+            <span className="text-slate-500">Same in both</span>
+          </div>
+        </div>
+        <div className="flex items-center gap-1.5">
+          {copyError && <span className="text-red-500 font-medium">{copyError}</span>}
+          <button
+            onClick={handleCopy}
+            className="flex items-center gap-1.5 px-2.5 py-1.5 rounded-md border border-slate-200 text-slate-600 font-medium hover:bg-slate-50 transition-colors"
+            title={conflicts.length > resolvedCount ? 'Unresolved conflicts are copied with conflict markers' : 'Copy the merged text'}
+          >
+            {copied ? <CheckIcon className="w-4 h-4 text-green-600" /> : <ClipboardDocumentIcon className="w-4 h-4" />}
+            {copied ? 'Copied' : 'Copy Result'}
+          </button>
+        </div>
+      </div>
+
+      {/* Merged Result */}
+      <div className="p-6 font-mono text-sm leading-relaxed whitespace-pre-wrap text-slate-700 break-words">
+        {chunks.map((chunk, index) => {
+          switch (chunk.kind) {
+            case 'a':
+              return <span key={index} className="bg-sky-100 text-sky-900 rounded-[2px] px-0.5" title="Changed in A">{chunk.a}</span>;
+            case 'b':
+              return <span key={index} className="bg-amber-100 text-amber-900 rounded-[2px] px-0.5" title="Changed in B">{chunk.b}</span>;
+            case 'both':
+              return <span key={index} className="bg-emerald-100 text-emerald-900 rounded-[2px] px-0.5" title="Same change in A and B">{chunk.a}</span>;
+            case 'conflict':
+              return renderConflict(chunk, index);
+            default:
+              return <span key={index}>{chunk.a}</span>;
+          }
+        })}
+      </div>
+    </div>
+  );
+};
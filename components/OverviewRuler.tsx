@@ -0,0 +1,74 @@
+import React, { RefObject, useEffect, useState } from 'react';
+import { OverviewMark, OverviewMarkKind } from '../types';
+
+interface OverviewRulerProps {
+  scrollRef: RefObject<HTMLElement>; // The scrolling element the ruler gives an overview of
+  marks: OverviewMark[]; // Positions as fractions of the element's scroll height
+}
+
+// Deletions sit in the left lane, additions in the right, moves across both
+const MARK_CLASSES: Record<OverviewMarkKind, string> = {
+  removed: 'left-0.5 right-1/2 bg-red-400',
+  added: 'left-1/2 right-0.5 bg-green-500',
+  moved: 'left-0.5 right-0.5 bg-violet-500',
+};
+
+const MARK_TITLES: Record<OverviewMarkKind, string> = {
+  removed: 'Deleted',
+  added: 'Added',
+  moved: 'Moved',
+};
+
+/**
+ * A thin strip beside a scrolling element showing where the changes are and
+ * which part is in view. Clicking the strip scrolls that spot into view.
+ */
+export const OverviewRuler: React.FC<OverviewRulerProps> = ({ scrollRef, marks }) => {
+  const [viewport, setViewport] = useState({ start: 0, end: 1 });
+
+  useEffect(() => {
+    const element = scrollRef.current;
+    if (!element) return;
+    const update = () => {
+      const height = element.scrollHeight || 1;
+      setViewport({ start: element.scrollTop / height, end: (element.scrollTop + element.clientHeight) / height });
+    };
+    const observer = new ResizeObserver(update);
+    element.addEventListener('scroll', update, { passive: true });
+    observer.observe(element);
+    update();
+    return () => {
+      element.removeEventListener('scroll', update);
+      observer.disconnect();
+    };
+  }, [scrollRef, marks]); // New marks usually mean new content, and a new scroll height
+
+  const handleClick = (e: React.MouseEvent<HTMLDivElement>) => {
+    const element = scrollRef.current;
+    if (!element) return;
+    const rect = e.currentTarget.getBoundingClientRect();
+    const fraction = (e.clientY - rect.top) / rect.height;
+    element.scrollTo({ top: fraction * element.scrollHeight - element.clientHeight / 2, behavior: 'smooth' });
+  };
+
+  return (
+    <div
+      onClick={handleClick}
+      className="relative w-3 flex-shrink-0 bg-slate-50 border-l border-slate-100 cursor-pointer select-none"
+      title="Overview of changes (click to jump)"
+    >
+      {marks.map((mark, index) => (
+        <div
+          key={index}
+          className={`absolute min-h-[2px] rounded-[1px] ${MARK_CLASSES[mark.kind]}`}
+          style={{ top: `${mark.start * 100}%`, height: `${(mark.end - mark.start) * 100}%` }}
+          title={MARK_TITLES[mark.kind]}
+        ></div>
+      ))}
+      <div
+        className="absolute inset-x-0 bg-slate-500/15 border-y border-slate-400/40 pointer-events-none"
+        style={{ top: `${viewport.start * 100}%`, height: `${Math.min(1, viewport.end - viewport.start) * 100}%` }}
+      ></div>
+    </div>
+  );
+};
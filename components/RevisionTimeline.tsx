@@ -0,0 +1,190 @@
+import React, { useState } from 'react';
+import { QueueListIcon, PlusIcon, XMarkIcon, SparklesIcon, UserGroupIcon } from '@heroicons/react/24/outline';
+import { Revision, DiffOptions } from '../types';
+import { useBlameWorker } from '../hooks/useDiffWorker';
+
+interface RevisionTimelineProps {
+  revisions: Revision[];
+  pair: [number, number]; // Indices shown as Original -> Modified
+  onSelectPair: (from: number, to: number) => void;
+  onAddRevision: () => void;
+  onDeleteRevision: (index: number) => void;
+  onClose: () => void;
+  onSummarize: () => void;
+  isAnalyzing: boolean;
+  diffOptions?: DiffOptions;
+}
+
+// Revision colors in the blame view; the first draft stays unhighlighted
+const BLAME_COLORS = [
+  'bg-white',
+  'bg-sky-100',
+  'bg-amber-100',
+  'bg-emerald-100',
+  'bg-rose-100',
+  'bg-violet-100',
+  'bg-lime-100',
+  'bg-orange-100',
+  'bg-cyan-100',
+  'bg-fuchsia-100',
+];
+
+const blameColor = (revision: number) =>
+  revision === 0 ? BLAME_COLORS[0] : BLAME_COLORS[1 + ((revision - 1) % (BLAME_COLORS.length - 1))];
+
+export const RevisionTimeline: React.FC<RevisionTimelineProps> = ({
+  revisions,
+  pair,
+  onSelectPair,
+  onAddRevision,
+  onDeleteRevision,
+  onClose,
+  onSummarize,
+  isAnalyzing,
+  diffOptions = {}
+}) => {
+  const [showBlame, setShowBlame] = useState(false);
+  const [from, to] = pair;
+  const isStep = to === from + 1;
+
+  // Blame of the revision shown as Modified, through every revision before it
+  const { spans: blame, isComputing: isBlameComputing, error: blameError } = useBlameWorker(
+    showBlame ? revisions.slice(0, to + 1).map(r => r.text) : null,
+    diffOptions
+  );
+
+  const selectClass = "bg-white border border-slate-300 text-slate-700 text-xs rounded-md px-2 py-1 focus:ring-2 focus:ring-indigo-500 focus:outline-none cursor-pointer";
+
+  return (
+    <div className="bg-white border border-slate-200 rounded-xl overflow-hidden shadow-sm">
+      {/* Header */}
+      <div className="border-b border-slate-100 px-4 py-3 flex items-center justify-between bg-slate-50/50">
+        <div className="flex items-center gap-2">
+          <QueueListIcon className="w-4 h-4 text-indigo-600" />
+          <h3 className="text-sm font-bold text-slate-700 uppercase tracking-wide">Revisions</h3>
+          <span className="px-2 py-0.5 bg-indigo-100 text-indigo-700 rounded-full text-xs font-bold">{revisions.length}</span>
+        </div>
+        <div className="flex items-center gap-2 text-xs">
+          <button
+            onClick={onAddRevision}
+            className="flex items-center gap-1 px-2.5 py-1.5 rounded-md border border-slate-200 text-slate-600 font-medium hover:bg-slate-50"
+            title="Start a new draft from the latest revision"
+          >
+            <PlusIcon className="w-3.5 h-3.5" /> New Draft
+          </button>
+          <button
+            onClick={() => setShowBlame(!showBlame)}
+            className={`flex items-center gap-1 px-2.5 py-1.5 rounded-md border font-medium transition-colors ${
+              showBlame ? 'bg-indigo-50 border-indigo-200 text-indigo-700' : 'border-slate-200 text-slate-600 hover:bg-slate-50'
+            }`}
+            title="Show which revision introduced each part of the Modified revision"
+          >
+            <UserGroupIcon className="w-3.5 h-3.5" /> Blame
+          </button>
+          <button
+            onClick={onSummarize}
+            disabled={isAnalyzing}
+            className="flex items-center gap-1 px-2.5 py-1.5 rounded-md bg-indigo-600 text-white font-medium hover:bg-indigo-700 disabled:bg-slate-300 disabled:cursor-not-allowed"
+            title="Ask the AI to summarize how the text evolved across all revisions"
+          >
+            <SparklesIcon className="w-3.5 h-3.5" /> Summarize Evolution
+          </button>
+          <button
+            onClick={onClose}
+            className="p-1.5 text-slate-400 hover:text-slate-600 transition-colors"
+            title="Stop tracking revisions"
+          >
+            <XMarkIcon className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+
+      <div className="px-4 py-3 space-y-3">
+        {/* Revision Stack */}
+        <div className="flex flex-wrap gap-1.5">
+          {revisions.map((revision, index) => (
+            <div
+              key={revision.id}
+              className={`group flex items-center gap-1 pl-2.5 pr-1 py-1 rounded-md border text-xs font-medium ${
+                index === from
+                  ? 'bg-red-50 border-red-200 text-red-700'
+                  : index === to
+                    ? 'bg-green-50 border-green-200 text-green-700'
+                    : 'bg-white border-slate-200 text-slate-500'
+              }`}
+              title={new Date(revision.timestamp).toLocaleString()}
+            >
+              <span className={`w-2 h-2 rounded-full border border-slate-300 ${blameColor(index)}`}></span>
+              {revision.label}
+              <button
+                onClick={() => onDeleteRevision(index)}
+                className="p-0.5 text-slate-300 hover:text-red-600 opacity-0 group-hover:opacity-100 transition-opacity"
+                title="Delete Revision"
+              >
+                <XMarkIcon className="w-3 h-3" />
+              </button>
+            </div>
+          ))}
+        </div>
+
+        {/* Pair Selection */}
+        <div className="flex flex-wrap items-center gap-x-6 gap-y-2 text-xs">
+          <div className="flex items-center gap-2">
+            <span className="font-bold text-slate-400 uppercase tracking-wider">Compare</span>
+            <select value={from} onChange={(e) => onSelectPair(Number(e.target.value), to)} className={selectClass}>
+              {revisions.map((r, i) => <option key={r.id} value={i}>{r.label}</option>)}
+            </select>
+            <span className="text-slate-400">→</span>
+            <select value={to} onChange={(e) => onSelectPair(from, Number(e.target.value))} className={selectClass}>
+              {revisions.map((r, i) => <option key={r.id} value={i}>{r.label}</option>)}
+            </select>
+          </div>
+
+          {/* Timeline: steps through consecutive revisions */}
+          <div className="flex items-center gap-2 flex-1 min-w-[200px]">
+            <span className="font-bold text-slate-400 uppercase tracking-wider">Step</span>
+            <input
+              type="range"
+              min={1}
+              max={revisions.length - 1}
+              value={isStep ? to : Math.max(1, to)}
+              onChange={(e) => {
+                const step = Number(e.target.value);
+                onSelectPair(step - 1, step);
+              }}
+              className={`flex-1 accent-indigo-600 ${isStep ? '' : 'opacity-50'}`}
+            />
+            <span className="text-slate-500 font-medium whitespace-nowrap">
+              {isStep ? `${to} / ${revisions.length - 1}` : 'Custom pair'}
+            </span>
+          </div>
+        </div>
+
+        {/* Blame View */}
+        {showBlame && (
+          <div className="border-t border-slate-100 pt-3">
+            <div className="text-[10px] font-bold uppercase tracking-wider text-slate-400 mb-2">
+              Origin of each part of {revisions[to]?.label}
+            </div>
+            {blameError && (
+              <div className="mb-2 text-xs font-medium text-red-600">
+                The blame could not be computed: {blameError}
+              </div>
+            )}
+            <div className={`font-mono text-sm leading-relaxed whitespace-pre-wrap text-slate-700 break-words max-h-80 overflow-y-auto custom-scrollbar transition-opacity ${isBlameComputing ? 'opacity-60' : ''}`}>
+              {blame.map((span, index) => (
+                <span
+                  key={index}
+                  className={`${blameColor(span.revision)} rounded-[2px]`}
+                  title={`Introduced in ${revisions[span.revision]?.label}`}
+                >
+                  {span.text}
+                </span>
+              ))}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
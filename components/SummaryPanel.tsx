@@ -1,25 +1,31 @@
 import React, { useState, useRef, useEffect } from 'react';
 import ReactMarkdown from 'react-markdown';
 import remarkGfm from 'remark-gfm';
-import { KeyIcon, PaperAirplaneIcon, ClipboardDocumentIcon, CheckIcon, SparklesIcon } from '@heroicons/react/24/outline';
+import { KeyIcon, PaperAirplaneIcon, ClipboardDocumentIcon, CheckIcon, SparklesIcon, StopIcon } from '@heroicons/react/24/outline';
 import { ChatMessage } from '../types';
 
 interface SummaryPanelProps {
   messages: ChatMessage[];
   isLoading: boolean;
+  streamingId?: string | null; // Message whose text is still arriving
   onGenerate: () => void;
   onSendMessage: (text: string) => void;
+  onStop: () => void;
   hasContent: boolean;
   hasKey: boolean;
+  hasModel: boolean; // Nothing can be sent until a model is selected
 }
 
 export const SummaryPanel: React.FC<SummaryPanelProps> = ({ 
   messages, 
   isLoading, 
+  streamingId,
   onGenerate, 
   onSendMessage,
+  onStop,
   hasContent, 
-  hasKey 
+  hasKey,
+  hasModel
 }) => {
   const [inputValue, setInputValue] = useState('');
   const messagesEndRef = useRef<HTMLDivElement>(null);
@@ -35,7 +41,7 @@ export const SummaryPanel: React.FC<SummaryPanelProps> = ({
 
   const handleSend = (e?: React.FormEvent) => {
     e?.preventDefault();
-    if (!inputValue.trim() || isLoading) return;
+    if (!inputValue.trim() || isLoading || !hasModel) return;
     onSendMessage(inputValue);
     setInputValue('');
   };
@@ -46,7 +52,10 @@ export const SummaryPanel: React.FC<SummaryPanelProps> = ({
     setTimeout(() => setCopiedId(null), 2000);
   };
 
-  const isEmpty = messages.length === 0;
+  // Shows the conversation as soon as a reply is requested, so it can be stopped
+  const isEmpty = messages.length === 0 && !isLoading;
+  // Until the first text streams in, a typing indicator stands in for the reply
+  const isWaiting = isLoading && messages[messages.length - 1]?.id !== streamingId;
 
   return (
     <div className="bg-white rounded-xl shadow-sm border border-slate-200 h-full flex flex-col overflow-hidden">
@@ -59,7 +68,8 @@ export const SummaryPanel: React.FC<SummaryPanelProps> = ({
         {!isEmpty && (
           <button 
             onClick={onGenerate} 
-            className="text-xs text-indigo-600 hover:text-indigo-800 font-medium"
+            disabled={isLoading || !hasModel}
+            className="text-xs text-indigo-600 hover:text-indigo-800 font-medium disabled:text-slate-300 disabled:cursor-not-allowed"
           >
             Restart Analysis
           </button>
@@ -98,9 +108,9 @@ export const SummaryPanel: React.FC<SummaryPanelProps> = ({
                 </p>
                 <button
                   onClick={onGenerate}
-                  disabled={!hasContent}
+                  disabled={!hasContent || !hasModel}
                   className={`px-6 py-2.5 rounded-lg font-medium text-sm transition-all shadow-sm
-                    ${hasContent 
+                    ${hasContent && hasModel 
                       ? 'bg-indigo-600 text-white hover:bg-indigo-700 hover:shadow-md cursor-pointer' 
                       : 'bg-slate-100 text-slate-400 cursor-not-allowed'}
                   `}
@@ -123,7 +133,7 @@ export const SummaryPanel: React.FC<SummaryPanelProps> = ({
                   } ${msg.isError ? 'bg-red-50 border-red-100 text-red-600' : ''}`}
                 >
                   {/* Copy Button for Model */}
-                  {msg.role === 'model' && !msg.isError && (
+                  {msg.role === 'model' && !msg.isError && msg.id !== streamingId && (
                     <button
                       onClick={() => handleCopy(msg.text, msg.id)}
                       className="absolute top-3 right-3 p-1.5 text-slate-400 hover:text-indigo-600 hover:bg-indigo-50 rounded-md opacity-0 group-hover:opacity-100 transition-all"
@@ -147,15 +157,19 @@ export const SummaryPanel: React.FC<SummaryPanelProps> = ({
                     >
                       {msg.text}
                     </ReactMarkdown>
+                    {msg.id === streamingId && (
+                      <span className="inline-block w-1.5 h-4 ml-0.5 align-text-bottom bg-indigo-400 animate-pulse"></span>
+                    )}
                   </div>
                   <div className="text-[10px] text-slate-400 mt-2 font-medium uppercase tracking-wider">
                     {msg.role === 'user' ? 'You' : 'Gemini AI'}
+                    {msg.isTruncated && <span className="ml-2 text-amber-600" title="The reply was stopped before it finished">· Truncated</span>}
                   </div>
                 </div>
               </div>
             ))}
             
-            {isLoading && (
+            {isWaiting && (
               <div className="flex justify-start">
                  <div className="bg-white border border-slate-100 shadow-sm rounded-2xl rounded-bl-none p-5">
                     <div className="flex space-x-2 items-center h-6">
@@ -183,13 +197,24 @@ export const SummaryPanel: React.FC<SummaryPanelProps> = ({
               disabled={isLoading}
               className="flex-grow bg-slate-50 border border-slate-200 text-slate-700 text-sm rounded-lg px-4 py-3 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-transparent disabled:opacity-60"
             />
-            <button
-              type="submit"
-              disabled={!inputValue.trim() || isLoading}
-              className="p-3 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 disabled:bg-slate-300 disabled:cursor-not-allowed transition-colors shadow-sm"
-            >
-              <PaperAirplaneIcon className="w-5 h-5" />
-            </button>
+            {isLoading ? (
+              <button
+                type="button"
+                onClick={onStop}
+                className="p-3 bg-white text-red-600 border border-red-200 rounded-lg hover:bg-red-50 transition-colors shadow-sm"
+                title="Stop generating (keeps the text so far)"
+              >
+                <StopIcon className="w-5 h-5" />
+              </button>
+            ) : (
+              <button
+                type="submit"
+                disabled={!inputValue.trim() || !hasModel}
+                className="p-3 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 disabled:bg-slate-300 disabled:cursor-not-allowed transition-colors shadow-sm"
+              >
+                <PaperAirplaneIcon className="w-5 h-5" />
+              </button>
+            )}
           </form>
         </div>
       )}
@@ -0,0 +1,157 @@
+import { useEffect, useRef, useState } from 'react';
+import { runBlameJob, runDiffJob } from '../utils/diffJobs';
+import { BlameRequest, BlameResponse, BlameSpan, DiffPart, DiffOptions, DiffRequest, DiffResponse } from '../types';
+
+const DEFAULT_DEBOUNCE_MS = 200;
+
+// Stands in for missing results, so consumers memoizing on them stay stable
+const NO_PARTS: DiffPart[] = [];
+const NO_SPANS: BlameSpan[] = [];
+
+const createWorker = () =>
+  new Worker(new URL('../utils/diffWorker.ts', import.meta.url), { type: 'module' });
+
+/**
+ * Runs the latest job in a Web Worker and keeps its response.
+ * - Debounced: typing does not queue a job per keystroke.
+ * - Cancellable: if a job is still running when a newer one starts, the worker
+ *   is terminated and replaced, since a busy worker cannot process messages.
+ * - Falls back to `runSync` on the main thread where workers are unavailable.
+ * - A failed job replaces the previous result with its error.
+ * A null job runs nothing; a new job starts only when `deps` change.
+ */
+const useWorkerJob = <Request extends DiffRequest | BlameRequest, Response extends DiffResponse | BlameResponse>(
+  job: Omit<Request, 'id'> | null,
+  deps: unknown[],
+  runSync: (job: Omit<Request, 'id'>) => Omit<Response, 'id'>,
+  debounceMs: number
+) => {
+  const [result, setResult] = useState<Omit<Response, 'id'> | null>(null);
+  const [isComputing, setIsComputing] = useState(job !== null);
+
+  const workerRef = useRef<Worker | null>(null);
+  const busyRef = useRef(false);
+  const latestJobRef = useRef(0);
+
+  const showResult = (response: Omit<Response, 'id'>) => {
+    setResult(response);
+    setIsComputing(false);
+  };
+  const showError = (error: string) => showResult({ error } as Omit<Response, 'id'>);
+
+  const handleResponse = (e: MessageEvent<Response>) => {
+    if (e.data.id !== latestJobRef.current) return; // Stale result
+    busyRef.current = false;
+    showResult(e.data);
+  };
+
+  const getWorker = () => {
+    if (workerRef.current && busyRef.current) {
+      // Cancel the stale job
+      workerRef.current.terminate();
+      workerRef.current = null;
+    }
+    if (!workerRef.current) {
+      const worker = createWorker();
+      worker.onmessage = handleResponse;
+      worker.onerror = (e) => {
+        worker.terminate();
+        if (workerRef.current === worker) workerRef.current = null;
+        busyRef.current = false;
+        showError(e.message || 'The diff worker crashed.');
+      };
+      workerRef.current = worker;
+    }
+    return workerRef.current;
+  };
+
+  useEffect(() => {
+    if (!job) {
+      setIsComputing(false);
+      return;
+    }
+    setIsComputing(true);
+    const timer = setTimeout(() => {
+      const id = ++latestJobRef.current;
+
+      if (typeof Worker === 'undefined') {
+        try {
+          showResult(runSync(job));
+        } catch (err: any) {
+          showError(err?.message || 'Diff computation failed.');
+        }
+        return;
+      }
+
+      getWorker().postMessage({ ...job, id });
+      busyRef.current = true;
+    }, debounceMs);
+
+    return () => clearTimeout(timer);
+  }, [...deps, debounceMs]);
+
+  // Terminate the worker on unmount
+  useEffect(() => () => {
+    workerRef.current?.terminate();
+    workerRef.current = null;
+    busyRef.current = false;
+  }, []);
+
+  return { result, isComputing };
+};
+
+/**
+ * Computes the diff between two texts, and its statistics, in a Web Worker.
+ * Given a base, it computes the three-way diff of the two texts as edits of
+ * the base instead, and highlights each against it as `partsA`/`partsB`.
+ * A failed job clears the previous diff and reports `error` instead.
+ */
+export const useDiffWorker = (
+  oldText: string,
+  newText: string,
+  options: DiffOptions = {},
+  base?: string,
+  debounceMs: number = DEFAULT_DEBOUNCE_MS
+) => {
+  // Options arrive as a fresh object each render; key the job on their content
+  const { result, isComputing } = useWorkerJob<DiffRequest, DiffResponse>(
+    { oldText, newText, base, options },
+    [oldText, newText, base, JSON.stringify(options)],
+    runDiffJob,
+    debounceMs
+  );
+
+  // Until the first three-way result arrives, the edits show no highlights
+  const isThreeWay = base !== undefined;
+  const diffParts = result?.parts ?? NO_PARTS;
+  const threeWay = isThreeWay ? result?.threeWay : undefined;
+
+  return {
+    diffParts,
+    diffStats: result?.stats ?? null,
+    diff3Chunks: threeWay?.chunks ?? null,
+    partsA: isThreeWay ? threeWay?.partsA ?? NO_PARTS : diffParts,
+    partsB: isThreeWay ? threeWay?.partsB ?? NO_PARTS : diffParts,
+    isComputing,
+    error: result?.error ?? null,
+  };
+};
+
+/**
+ * Computes the blame of the last of `texts` in the diff worker, like
+ * useDiffWorker. Null texts turn it off. A new job starts only when the
+ * content of the texts or options changes, not on every new array.
+ */
+export const useBlameWorker = (
+  texts: string[] | null,
+  options: DiffOptions = {},
+  debounceMs: number = DEFAULT_DEBOUNCE_MS
+) => {
+  const { result, isComputing } = useWorkerJob<BlameRequest, BlameResponse>(
+    texts && { texts, options },
+    [texts && JSON.stringify(texts), JSON.stringify(options)],
+    runBlameJob,
+    debounceMs
+  );
+  return { spans: result?.spans ?? NO_SPANS, isComputing, error: result?.error ?? null };
+};
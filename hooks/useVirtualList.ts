@@ -0,0 +1,123 @@
+import { RefObject, useEffect, useLayoutEffect, useMemo, useRef, useState } from 'react';
+
+// Rows rendered beyond each edge of the viewport, in pixels
+const OVERSCAN_PX = 800;
+// Shorter lists are rendered whole
+const MIN_VIRTUAL_ROWS = 400;
+
+/**
+ * Windowed rendering of a list of variable-height rows inside a scroll
+ * container. Only the rows near the viewport are rendered, between two
+ * spacers standing in for the rest. Rendered rows must carry
+ * `data-virtual-row={index}`; they are measured after each render, and rows
+ * not seen yet count as `estimateHeight(index)`. Measurements are dropped
+ * whenever `resetKey` changes. Short lists are rendered whole.
+ */
+export const useVirtualList = (
+  scrollRef: RefObject<HTMLElement>,
+  count: number,
+  estimateHeight: (index: number) => number,
+  resetKey?: unknown
+) => {
+  const heightsRef = useRef(new Map<number, number>());
+  const [scrollTop, setScrollTop] = useState(0);
+  const [viewportHeight, setViewportHeight] = useState(0);
+  const [measureVersion, setMeasureVersion] = useState(0);
+  const pendingRef = useRef<{ index: number; selector?: string } | null>(null);
+  const isVirtual = count > MIN_VIRTUAL_ROWS;
+
+  const resetKeyRef = useRef(resetKey);
+  if (resetKeyRef.current !== resetKey) {
+    resetKeyRef.current = resetKey;
+    heightsRef.current.clear();
+  }
+
+  useEffect(() => {
+    const container = scrollRef.current;
+    if (!container || !isVirtual) return;
+    const handleScroll = () => setScrollTop(container.scrollTop);
+    const observer = new ResizeObserver(() => setViewportHeight(container.clientHeight));
+    container.addEventListener('scroll', handleScroll, { passive: true });
+    observer.observe(container);
+    handleScroll();
+    return () => {
+      container.removeEventListener('scroll', handleScroll);
+      observer.disconnect();
+    };
+  }, [scrollRef, isVirtual]);
+
+  // Top offset of every row, plus the total height at the end
+  const offsets = useMemo(() => {
+    const result = new Float64Array(count + 1);
+    for (let i = 0; i < count; i++) {
+      result[i + 1] = result[i] + (heightsRef.current.get(i) ?? estimateHeight(i));
+    }
+    return result;
+  }, [count, measureVersion, resetKey]);
+
+  // First row whose bottom is below `y`
+  const rowAt = (y: number) => {
+    let lo = 0;
+    let hi = count;
+    while (lo < hi) {
+      const mid = (lo + hi) >> 1;
+      if (offsets[mid + 1] <= y) lo = mid + 1;
+      else hi = mid;
+    }
+    return lo;
+  };
+
+  const start = isVirtual ? rowAt(scrollTop - OVERSCAN_PX) : 0;
+  const end = isVirtual ? Math.min(count, rowAt(scrollTop + viewportHeight + OVERSCAN_PX) + 1) : count;
+
+  // Measure what rendered, then finish a pending scroll once its row exists
+  useLayoutEffect(() => {
+    const container = scrollRef.current;
+    if (!container) return;
+    let changed = false;
+    container.querySelectorAll<HTMLElement>('[data-virtual-row]').forEach(row => {
+      const index = Number(row.dataset.virtualRow);
+      const height = row.offsetHeight;
+      if (heightsRef.current.get(index) !== height) {
+        heightsRef.current.set(index, height);
+        changed = true;
+      }
+    });
+    if (changed) setMeasureVersion(v => v + 1);
+
+    const pending = pendingRef.current;
+    if (!pending) return;
+    const row = container.querySelector(`[data-virtual-row="${pending.index}"]`);
+    if (!row) return;
+    pendingRef.current = null;
+    const target = (pending.selector && row.querySelector(pending.selector)) || row;
+    target.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  });
+
+  /**
+   * Scrolls a row, or the element matching `selector` inside it, to the middle
+   * of the viewport, jumping close to it first if it is not rendered yet.
+   */
+  const scrollToRow = (index: number, selector?: string) => {
+    const container = scrollRef.current;
+    if (!container || index < 0 || index >= count) return;
+    const row = container.querySelector(`[data-virtual-row="${index}"]`);
+    if (row) {
+      const target = (selector && row.querySelector(selector)) || row;
+      target.scrollIntoView({ behavior: 'smooth', block: 'center' });
+      return;
+    }
+    pendingRef.current = { index, selector };
+    container.scrollTop = Math.max(0, offsets[index] - container.clientHeight / 2);
+    setScrollTop(container.scrollTop);
+  };
+
+  return {
+    start,
+    end,
+    paddingTop: offsets[start],
+    paddingBottom: offsets[count] - offsets[end],
+    offsets, // Top of each row as laid out, and the total height
+    scrollToRow,
+  };
+};
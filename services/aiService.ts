@@ -1,19 +1,42 @@
 
-import { GoogleGenAI } from "@google/genai";
-import { ChatMessage, StoredKey } from "../types";
-
-// --- Helper: Construct the System Prompt ---
-export const constructSystemPrompt = (
+import { ChatMessage, StoredKey, Revision, ReviewChange, ProviderRequest, StreamOptions } from "../types";
+import { getProvider } from "./providers";
+import { computeReadability, formatReadabilityReport } from "../utils/readability";
+
+// Locally computed metrics, so the verdict on clarity can cite numbers
+const readabilitySection = (versions: { label: string; text: string }[], compareTo?: 'previous' | 'first') => `
+    === READABILITY METRICS (computed locally; heuristic estimates) ===
+${formatReadabilityReport(versions.map(v => ({ label: v.label, metrics: computeReadability(v.text) })), compareTo)}
+    ====================================================================
+`;
+
+/**
+ * An analysis prompt: the standing instructions go to the provider's system
+ * prompt, while the persona, the question and the texts open the conversation
+ * as the user's first turn.
+ */
+interface AnalysisPrompt {
+  system: string;
+  context: string;
+}
+
+// --- Helper: Construct the Analysis Prompt ---
+export const constructAnalysisPrompt = (
   original: string,
   modified: string,
   personaInstruction: string,
-  question?: string
-) => {
+  question?: string,
+  base?: string, // Three-way: original and modified are two independent edits of this text
+  revisions?: Revision[] // Evolution: analyze every revision in order instead of a single pair
+): AnalysisPrompt => {
+  if (revisions && revisions.length > 1) return constructEvolutionPrompt(revisions, personaInstruction, question);
+  if (base !== undefined) return constructThreeWayPrompt(base, original, modified, personaInstruction, question);
+
   const questionContext = question 
     ? `SPECIFIC QUESTION/GOAL: The user wants to know: "${question}".\nCompare which version better answers this question or achieves this goal.`
     : `TASK: Compare the quality of the two texts. Highlight improvements and potential regressions.`;
 
-  return `
+  const context = `
     ${personaInstruction}
 
     ${questionContext}
@@ -27,170 +50,118 @@ export const constructSystemPrompt = (
     === MODIFIED TEXT ===
     ${modified}
     =====================
+${readabilitySection([{ label: 'Original', text: original }, { label: 'Modified', text: modified }])}
+  `;
 
+  const system = `
     Please provide your analysis in Chinese (Markdown format).
     1. Summarize key changes.
-    2. ${question ? "Directly answer the user's specific question about which version is better." : "Evaluate the overall improvement."}
+    2. ${question ? "Directly answer the user's specific question about which version is better." : "Evaluate the overall improvement."} Where readability or clarity matters, refer to the readability metrics provided.
     3. Provide a conclusion.
   `;
+
+  return { system, context };
 };
 
-// --- PROVIDER IMPLEMENTATIONS ---
+const constructThreeWayPrompt = (
+  base: string,
+  versionA: string,
+  versionB: string,
+  personaInstruction: string,
+  question?: string
+): AnalysisPrompt => {
+  const questionContext = question
+    ? `SPECIFIC QUESTION/GOAL: The user wants to know: "${question}".\nCompare which edit better answers this question or achieves this goal.`
+    : `TASK: Two editors independently revised the same base text. Compare both edits against the base.`;
 
-// 1. Google Gemini Provider
-const callGemini = async (
-  key: StoredKey,
-  model: string,
-  messages: ChatMessage[],
-  systemContext?: string // For the first run
-): Promise<string> => {
-  const ai = new GoogleGenAI({ apiKey: key.value });
-  
-  // Convert messages to Gemini format
-  // We need to construct the history carefully.
-  // If this is the very first call (systemContext exists), we prepend it.
-  
-  let sdkHistory: { role: 'user' | 'model', parts: { text: string }[] }[] = [];
-  let lastMessage = "";
-
-  if (systemContext) {
-     // First turn: System Context -> Model Response (if any history exists)
-     // But if we are just starting, we send this as the message.
-     if (messages.length === 0) {
-       lastMessage = systemContext;
-     } else {
-        // Resume history
-        // We must inject the system context as the first user message
-        sdkHistory.push({ role: 'user', parts: [{ text: systemContext }] });
-        
-        // Add the rest of history except the very last user message (which we want to send now)
-        // Actually, stateless call style: recreate history up to N-1, send N.
-        // But for simplicity in this app, 'messages' contains EVERYTHING including the latest user message.
-        
-        // Let's separate history from the "new" message if possible, OR just use history + sendMessage('') 
-        // But sendMessage('') is invalid.
-        // Strategy: Create chat with history of [0...N-1], then sendMessage(N).
-     }
-  } else {
-    // Follow up
-    // Logic: We assume the first message in 'messages' was the system context result or we need to persist context?
-    // Problem: Gemini Chat object is stateful, but here we are stateless.
-    // We need to pass the FULL context every time if we are stateless.
-    // But 'messages' in App.tsx doesn't store the big system prompt text, it stores the *model's response*.
-    
-    // FIX: In App.tsx, we must ensure we always pass the systemContext (original/modified text) to this function.
-    // We will rebuild the history every time.
-  }
+  const context = `
+    ${personaInstruction}
 
-  // Unified Stateless Logic for Gemini:
-  // 1. Build full history including the "System Context" (Original/Modified texts) as the first user message.
-  const fullHistory = [];
-  
-  // If we have a system prompt context (we should always have it for this app), that's the first User message.
-  if (systemContext) {
-    fullHistory.push({ role: 'user', parts: [{ text: systemContext }] });
-  }
-
-  // Append the visible chat history
-  // We assume 'messages' contains [ModelResponse, UserFollowUp, ModelResponse...]
-  // Wait, App.tsx 'messages' starts with the First Model Response.
-  // So:
-  // User (SystemContext) -> Model (messages[0]) -> User (messages[1]) -> ...
-  
-  // The last message in `messages` is the one we want to "respond" to? 
-  // No, `messages` passed here usually includes the latest User message that needs a response.
-  // OR, we can define `messages` as "History so far" and `newMessage` string. 
-  // Let's stick to: `messages` is the History (including the latest user message). We send the whole chain.
-  
-  // However, Gemini SDK `chat.sendMessage` expects to *send* the last part.
-  
-  // Separate History (All except last) and Current Message (Last)
-  const historyMsg = [...messages];
-  const lastUserMsg = historyMsg.pop(); 
-
-  if (!lastUserMsg || lastUserMsg.role !== 'user') {
-     // Special case: First run. 
-     if (systemContext && messages.length === 0) {
-        const chat = ai.chats.create({ model });
-        const result = await chat.sendMessage({ message: systemContext });
-        return result.text || "";
-     }
-     throw new Error("Invalid message history state.");
-  }
-
-  // Convert intermediate history
-  for (const msg of historyMsg) {
-    fullHistory.push({
-      role: msg.role,
-      parts: [{ text: msg.text }]
-    });
-  }
-
-  // Init Chat with history
-  const chat = ai.chats.create({
-    model,
-    history: fullHistory as any,
-    config: { temperature: 0.4 }
-  });
+    ${questionContext}
+
+    Here are the texts to analyze:
+
+    === BASE TEXT ===
+    ${base}
+    =================
 
-  // Send the last message
-  const result = await chat.sendMessage({ message: lastUserMsg.text });
-  return result.text || "";
+    === VERSION A (first edit of the base) ===
+    ${versionA}
+    ==========================================
+
+    === VERSION B (second edit of the base) ===
+    ${versionB}
+    ===========================================
+${readabilitySection([{ label: 'Base', text: base }, { label: 'Version A', text: versionA }, { label: 'Version B', text: versionB }], 'first')}
+  `;
+
+  const system = `
+    Please provide your analysis in Chinese (Markdown format).
+    1. Summarize the changes each version made to the base.
+    2. Point out where the two edits conflict or overlap, and recommend how to merge them.
+    3. ${question ? "Directly answer the user's specific question about which edit is better." : "Evaluate which edit improves the base more."}
+    4. Provide a conclusion.
+  `;
+
+  return { system, context };
 };
 
+const constructEvolutionPrompt = (
+  revisions: Revision[],
+  personaInstruction: string,
+  question?: string
+): AnalysisPrompt => {
+  const questionContext = question
+    ? `SPECIFIC QUESTION/GOAL: The user wants to know: "${question}".\nTrace how each revision moved the text towards or away from this goal.`
+    : `TASK: The text went through ${revisions.length} revisions. Summarize how it evolved from the first draft to the last.`;
+
+  const drafts = revisions.map((r, i) => `
+    === REVISION ${i + 1}: ${r.label} ===
+    ${r.text}`).join('\n');
+
+  const context = `
+    ${personaInstruction}
 
-// 2. OpenAI / DeepSeek Provider (Compatible APIs)
-const callOpenAICompatible = async (
+    ${questionContext}
+
+    Here are the revisions, oldest first:
+    ${drafts}
+    =====================
+${readabilitySection(revisions.map((r, i) => ({ label: `Revision ${i + 1}`, text: r.text })))}
+  `;
+
+  const system = `
+    Please provide your analysis in Chinese (Markdown format).
+    1. Summarize the key changes made in each revision.
+    2. Describe the overall direction of the edits and any changes that were later reverted.
+    3. ${question ? "Directly answer the user's specific question." : "Evaluate whether the final revision is the strongest, or which earlier one was better in which respects."}
+    4. Provide a conclusion.
+  `;
+
+  return { system, context };
+};
+
+// --- PROVIDER ROUTING ---
+
+// Sends a conversation through the key's provider, streaming when it can
+const runConversation = (
   key: StoredKey,
-  model: string,
-  messages: ChatMessage[],
-  systemContext?: string
+  request: ProviderRequest,
+  stream?: StreamOptions
 ): Promise<string> => {
-  const baseUrl = key.baseUrl ? key.baseUrl.replace(/\/+$/, '') : 
-                  (key.provider === 'deepseek' ? 'https://api.deepseek.com' : 'https://api.openai.com/v1');
-  
-  const url = `${baseUrl}/chat/completions`;
-
-  // Construct Messages
-  const apiMessages: any[] = [];
-
-  // System Prompt
-  // OpenAI supports a dedicated "system" role.
-  if (systemContext) {
-    // For this app, the "System Context" is actually a huge User prompt containing the text to analyze.
-    // But we can use 'system' role for the Persona instruction and 'user' for the text data.
-    // To keep parity with Gemini logic (which puts everything in a User prompt), let's stick to User role for the big context.
-    apiMessages.push({ role: 'user', content: systemContext });
-  }
-
-  // Append history
-  for (const msg of messages) {
-    // Skip the last one if we are going to handle it specially? No, OpenAI endpoint takes full list.
-    // Wait, `messages` includes the latest user message we want a response for.
-    apiMessages.push({ role: msg.role, content: msg.text });
-  }
-
-  const response = await fetch(url, {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      'Authorization': `Bearer ${key.value}`
-    },
-    body: JSON.stringify({
-      model: model,
-      messages: apiMessages,
-      temperature: 0.4,
-      stream: false
-    })
-  });
-
-  if (!response.ok) {
-    const err = await response.json().catch(() => ({}));
-    throw new Error(err.error?.message || `API Error: ${response.statusText}`);
-  }
-
-  const data = await response.json();
-  return data.choices?.[0]?.message?.content || "";
+  const provider = getProvider(key.provider);
+  if (stream && provider.capabilities.streaming) return provider.stream(key, request, stream);
+  return provider.send(key, request, stream?.signal);
+};
+
+// Single prompt without chat history (helper tasks)
+const callSingleShot = async (
+  key: StoredKey,
+  modelName: string,
+  prompt: string
+): Promise<string> => {
+  const text = await getProvider(key.provider).send(key, { model: modelName, messages: [{ role: 'user', text: prompt }] });
+  return text.trim();
 };
 
 
@@ -203,19 +174,24 @@ export const sendMessageToAI = async (
   original: string,
   modified: string,
   personaInstruction: string,
-  question?: string
+  question?: string,
+  base?: string, // Set for three-way comparisons
+  revisions?: Revision[], // Set to summarize the evolution across all revisions
+  stream?: StreamOptions // Reports the reply as it arrives and allows stopping it
 ): Promise<string> => {
   
   // 1. Construct the "Context" (The massive first prompt)
   // We always generate this because we are stateless.
-  const systemContext = constructSystemPrompt(original, modified, personaInstruction, question);
-
-  // 2. Route to Provider
-  if (key.provider === 'google') {
-    return callGemini(key, model, messages, systemContext);
-  } else {
-    return callOpenAICompatible(key, model, messages, systemContext);
-  }
+  const prompt = constructAnalysisPrompt(original, modified, personaInstruction, question, base, revisions);
+
+  // 2. Route to the provider: the instructions become the system prompt,
+  // and the context opens the conversation as the user's first turn
+  return runConversation(key, {
+    model,
+    system: prompt.system,
+    messages: [{ role: 'user', text: prompt.context }, ...messages.map(m => ({ role: m.role, text: m.text }))],
+    temperature: 0.4
+  }, stream);
 };
 
 export const generatePersonaPrompt = async (
@@ -233,20 +209,43 @@ export const generatePersonaPrompt = async (
     Do NOT include introductory text like "Here is the prompt", just output the prompt itself.
   `;
 
-  // Create a temporary message structure for the single-shot call
-  const messages: ChatMessage[] = [{
-    id: 'temp', role: 'user', text: prompt, timestamp: Date.now()
-  }];
-
-  if (key.provider === 'google') {
-     // Simplified call for Gemini
-     const ai = new GoogleGenAI({ apiKey: key.value });
-     const result = await ai.models.generateContent({
-        model: modelName,
-        contents: prompt
-     });
-     return result.text?.trim() || "";
-  } else {
-     return callOpenAICompatible(key, modelName, messages); // Reuse generic logic, no system context needed for this simple task
-  }
+  return callSingleShot(key, modelName, prompt);
+};
+
+/**
+ * Asks the AI, acting as the given persona, which of the numbered changes it
+ * would accept. Returns the indices of the recommended changes.
+ */
+export const recommendChanges = async (
+  key: StoredKey,
+  modelName: string,
+  changes: ReviewChange[],
+  personaInstruction: string,
+  question?: string
+): Promise<number[]> => {
+  const list = changes.map((c, i) => {
+    const edit = c.moved
+      ? `MOVED: "${c.added}"`
+      : `REMOVED: "${c.removed}" ADDED: "${c.added}"`;
+    return `[${i + 1}] AFTER: "...${c.context}" ${edit}`;
+  }).join('\n');
+
+  const prompt = `
+    ${personaInstruction}
+
+    Task: You are reviewing tracked changes to a document. Decide for each numbered change whether it should be accepted.
+    ${question ? `The edit should serve this goal: "${question}".` : ''}
+
+    Changes:
+    ${list}
+
+    Respond with ONLY a JSON array of the numbers of the changes you would accept, e.g. [1, 3]. Do not add any other text.
+  `;
+
+  const response = await callSingleShot(key, modelName, prompt);
+  const match = response.match(/\[[\d,\s]*\]/);
+  if (!match) throw new Error("The AI did not return a list of changes to accept.");
+  return (JSON.parse(match[0]) as number[])
+    .map(n => n - 1)
+    .filter(i => Number.isInteger(i) && i >= 0 && i < changes.length);
 };
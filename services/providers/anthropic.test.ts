@@ -0,0 +1,48 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { ChatMessage, StoredKey } from '../../types';
+import { sendMessageToAI } from '../aiService';
+
+const key: StoredKey = { id: 'k', name: 'Anthropic', value: 'sk-ant-test', provider: 'anthropic', isActive: true };
+
+// Replies with one text block and records the request body
+const mockFetch = () => {
+  const fetchMock = vi.fn(async (_url: string, _init: RequestInit) =>
+    new Response(JSON.stringify({ content: [{ type: 'text', text: 'Analysis' }] }), { status: 200 })
+  );
+  vi.stubGlobal('fetch', fetchMock);
+  return () => JSON.parse(fetchMock.mock.calls[0][1].body as string);
+};
+
+describe('anthropicProvider', () => {
+  afterEach(() => vi.unstubAllGlobals());
+
+  it('sends the analysis instructions as the top-level system prompt', async () => {
+    const body = mockFetch();
+    const messages: ChatMessage[] = [{ id: '1', role: 'user', text: 'Which is better?', timestamp: 0 }];
+
+    const reply = await sendMessageToAI(key, 'claude-sonnet-4-5', messages, 'The cat sat.', 'The dog sat.', 'You are a strict editor.');
+
+    expect(reply).toBe('Analysis');
+    const { system, messages: sent, max_tokens } = body();
+    expect(system).toContain('Please provide your analysis');
+    expect(system).not.toContain('You are a strict editor.');
+    expect(sent[0].role).toBe('user');
+    expect(sent[0].content).toContain('You are a strict editor.');
+    expect(sent[0].content).toContain('The dog sat.');
+    expect(sent[1]).toEqual({ role: 'user', content: 'Which is better?' });
+    expect(max_tokens).toBeGreaterThan(0);
+  });
+
+  it('maps model turns to assistant turns', async () => {
+    const body = mockFetch();
+    const messages: ChatMessage[] = [
+      { id: '1', role: 'user', text: 'Start', timestamp: 0 },
+      { id: '2', role: 'model', text: 'Earlier reply', timestamp: 1 },
+      { id: '3', role: 'user', text: 'Follow-up', timestamp: 2 },
+    ];
+
+    await sendMessageToAI(key, 'claude-sonnet-4-5', messages, 'a', 'b', 'Persona');
+
+    expect(body().messages.map((m: { role: string }) => m.role)).toEqual(['user', 'user', 'assistant', 'user']);
+  });
+});
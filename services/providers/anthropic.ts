@@ -0,0 +1,75 @@
+import { ProviderAdapter, ProviderRequest, StoredKey } from "../../types";
+import { collectStream, readErrorMessage, readServerSentEvents } from "./streaming";
+
+const BASE_URL = 'https://api.anthropic.com/v1';
+const API_VERSION = '2023-06-01';
+// The Messages API requires a cap on the reply; long analyses fit well within it
+const MAX_TOKENS = 8192;
+
+const headers = (key: StoredKey) => ({
+  'Content-Type': 'application/json',
+  'x-api-key': key.value,
+  'anthropic-version': API_VERSION,
+  // Keys are the user's own and stay in their browser, so calling from the page is intended
+  'anthropic-dangerous-direct-browser-access': 'true',
+});
+
+const post = async (key: StoredKey, request: ProviderRequest, stream: boolean, signal?: AbortSignal) => {
+  const response = await fetch(`${BASE_URL}/messages`, {
+    method: 'POST',
+    headers: headers(key),
+    body: JSON.stringify({
+      model: request.model,
+      max_tokens: MAX_TOKENS,
+      system: request.system,
+      messages: request.messages.map(m => ({ role: m.role === 'model' ? 'assistant' : 'user', content: m.text })),
+      temperature: request.temperature,
+      stream
+    }),
+    signal
+  });
+  if (!response.ok) throw new Error(await readErrorMessage(response));
+  return response;
+};
+
+/**
+ * Anthropic's Messages API. Unlike the OpenAI protocol it takes the system
+ * prompt as a separate field, authenticates with `x-api-key` and needs
+ * `max_tokens` on every request.
+ */
+export const anthropicProvider: ProviderAdapter = {
+  id: 'anthropic',
+  name: 'Anthropic',
+  badgeClassName: 'bg-orange-100 text-orange-700',
+  models: [
+    { id: 'claude-sonnet-4-5', label: 'Claude Sonnet 4.5 (Balanced)' },
+    { id: 'claude-opus-4-1', label: 'Claude Opus 4.1 (High Intelligence)' },
+    { id: 'claude-haiku-4-5', label: 'Claude Haiku 4.5 (Fast)' },
+  ],
+  defaults: { model: 'claude-sonnet-4-5', keyPlaceholder: 'sk-ant-...' },
+  capabilities: { streaming: true, baseUrl: 'none', requiresKey: true, customRequest: false, discoversModels: false },
+
+  send: async (key, request, signal) => {
+    const data = await (await post(key, request, false, signal)).json();
+    return (data.content || [])
+      .filter((block: { type: string }) => block.type === 'text')
+      .map((block: { text: string }) => block.text)
+      .join('');
+  },
+
+  stream: (key, request, options) => collectStream(async append => {
+    const response = await post(key, request, true, options.signal);
+    await readServerSentEvents(response, data => {
+      const event = JSON.parse(data);
+      if (event.type === 'error') throw new Error(event.error?.message || "The stream reported an error.");
+      if (event.type === 'content_block_delta' && event.delta?.type === 'text_delta') append(event.delta.text);
+    });
+  }, options),
+
+  listModels: async () => anthropicProvider.models,
+
+  validateKey: async (key) => {
+    const response = await fetch(`${BASE_URL}/models?limit=1`, { headers: headers(key) });
+    if (!response.ok) throw new Error(await readErrorMessage(response));
+  },
+};
@@ -0,0 +1,39 @@
+import { GoogleGenAI } from "@google/genai";
+import { ProviderAdapter, ProviderRequest, StoredKey } from "../../types";
+import { collectStream } from "./streaming";
+
+const toGeminiRequest = (request: ProviderRequest, signal?: AbortSignal) => ({
+  model: request.model,
+  contents: request.messages.map(m => ({ role: m.role, parts: [{ text: m.text }] })),
+  config: { systemInstruction: request.system, temperature: request.temperature, abortSignal: signal },
+});
+
+const client = (key: StoredKey) => new GoogleGenAI({ apiKey: key.value });
+
+export const geminiProvider: ProviderAdapter = {
+  id: 'google',
+  name: 'Google Gemini',
+  badgeClassName: 'bg-blue-100 text-blue-700',
+  models: [
+    { id: 'gemini-2.5-flash', label: 'Gemini 2.5 Flash (Fast & Free)' },
+    { id: 'gemini-3-pro-preview', label: 'Gemini 3.0 Pro (High Intelligence)' },
+  ],
+  defaults: { model: 'gemini-2.5-flash', keyPlaceholder: 'AIza...' },
+  capabilities: { streaming: true, baseUrl: 'none', requiresKey: true, customRequest: false, discoversModels: false },
+
+  send: async (key, request, signal) => {
+    const result = await client(key).models.generateContent(toGeminiRequest(request, signal));
+    return result.text || "";
+  },
+
+  stream: (key, request, options) => collectStream(async append => {
+    const response = await client(key).models.generateContentStream(toGeminiRequest(request, options.signal));
+    for await (const chunk of response) append(chunk.text || "");
+  }, options),
+
+  listModels: async () => geminiProvider.models,
+
+  validateKey: async (key) => {
+    await client(key).models.list({ config: { pageSize: 1 } });
+  },
+};
@@ -0,0 +1,22 @@
+import { AIProvider, ProviderAdapter } from "../../types";
+import { geminiProvider } from "./gemini";
+import { openaiProvider, deepseekProvider, customProvider } from "./openaiCompatible";
+import { anthropicProvider } from "./anthropic";
+import { localProvider } from "./local";
+
+/**
+ * Every supported AI provider, in the order they are offered. Supporting a
+ * new provider means writing its adapter and listing it here.
+ */
+export const PROVIDERS: ProviderAdapter[] = [
+  geminiProvider,
+  openaiProvider,
+  deepseekProvider,
+  anthropicProvider,
+  customProvider,
+  localProvider,
+];
+
+// Keys saved before providers existed are Gemini keys
+export const getProvider = (id?: AIProvider): ProviderAdapter =>
+  PROVIDERS.find(p => p.id === id) ?? geminiProvider;
@@ -0,0 +1,22 @@
+import { createOpenAICompatibleProvider } from "./openaiCompatible";
+
+// Loading a large model can take minutes before the first token arrives
+const LOCAL_TIMEOUT_MS = 10 * 60 * 1000;
+
+/**
+ * A model server on this machine or the local network. Ollama and the
+ * llama.cpp server both speak the OpenAI protocol under /v1, so nothing the
+ * analysis sends leaves the network.
+ */
+export const localProvider = createOpenAICompatibleProvider({
+  id: 'local',
+  name: 'Local (Ollama / llama.cpp)',
+  description: 'Use http://localhost:8080/v1 for a llama.cpp server. Ollama only accepts requests from web pages listed in OLLAMA_ORIGINS, so start it with this page\'s origin there.',
+  badgeClassName: 'bg-amber-100 text-amber-700',
+  models: [], // Whatever the server has installed
+  defaults: { model: '', baseUrl: 'http://localhost:11434/v1', keyPlaceholder: 'Not needed' },
+  baseUrl: 'optional',
+  requiresKey: false,
+  discoversModels: true,
+  timeoutMs: LOCAL_TIMEOUT_MS,
+});
@@ -0,0 +1,187 @@
+import { AIProvider, AuthScheme, ProviderAdapter, ProviderModel, ProviderRequest, StoredKey } from "../../types";
+import { collectStream, createInactivityTimeout, readErrorMessage, readServerSentEvents } from "./streaming";
+
+// Keys of the 'custom' provider saved before it required a URL talk to OpenAI
+const FALLBACK_BASE_URL = 'https://api.openai.com/v1';
+const CHAT_PATH = '/chat/completions';
+
+const AUTH_HEADERS: Record<AuthScheme, (value: string) => Record<string, string>> = {
+  'bearer': value => ({ 'Authorization': `Bearer ${value}` }),
+  'api-key': value => ({ 'api-key': value }),
+  'none': () => ({}),
+};
+
+interface OpenAICompatibleConfig {
+  id: AIProvider;
+  name: string;
+  description?: string;
+  badgeClassName: string;
+  models: ProviderModel[];
+  defaults: ProviderAdapter['defaults'];
+  baseUrl: ProviderAdapter['capabilities']['baseUrl'];
+  requiresKey?: boolean; // Defaults to true
+  customRequest?: boolean; // Honor the key's auth scheme, headers, query and path
+  discoversModels?: boolean; // Ask the server's /models endpoint for the model list
+  timeoutMs?: number; // Give up after this long without any response
+}
+
+/**
+ * An adapter for APIs following OpenAI's chat completions protocol, which
+ * OpenAI, DeepSeek and most gateways (OneAPI, OpenRouter, ...) speak.
+ */
+export const createOpenAICompatibleProvider = (config: OpenAICompatibleConfig): ProviderAdapter => {
+  // Request options stored with a key only apply where the provider allows them
+  const options = (key: StoredKey): Partial<StoredKey> => config.customRequest ? key : {};
+
+  const endpoint = (key: StoredKey, path: string) => {
+    const url = `${(key.baseUrl || config.defaults.baseUrl || FALLBACK_BASE_URL).replace(/\/+$/, '')}${path}`;
+    const query = new URLSearchParams(options(key).queryParams).toString();
+    return query ? `${url}${url.includes('?') ? '&' : '?'}${query}` : url;
+  };
+
+  const chatPath = (key: StoredKey, model: string) => {
+    const template = options(key).pathTemplate?.trim();
+    if (!template) return CHAT_PATH;
+    const path = template.replace(/\{model\}/g, encodeURIComponent(model));
+    return path.startsWith('/') ? path : `/${path}`;
+  };
+
+  const headers = (key: StoredKey): Record<string, string> => ({
+    'Content-Type': 'application/json',
+    ...(key.value ? AUTH_HEADERS[options(key).authScheme || 'bearer'](key.value) : {}),
+    ...options(key).extraHeaders
+  });
+
+  // Runs a request under the inactivity timeout, reporting it in words when it fires
+  const withTimeout = async <T>(signal: AbortSignal | undefined, run: (timeout: ReturnType<typeof createInactivityTimeout>) => Promise<T>) => {
+    const timeout = createInactivityTimeout(config.timeoutMs, signal);
+    try {
+      return await run(timeout);
+    } catch (error) {
+      if (timeout.hasTimedOut()) {
+        const seconds = Math.round(config.timeoutMs! / 1000);
+        const span = seconds >= 120 ? `${Math.round(seconds / 60)} minutes` : `${seconds} seconds`;
+        throw new Error(`${config.name} did not respond within ${span}.`);
+      }
+      throw error;
+    } finally {
+      timeout.stop();
+    }
+  };
+
+  const post = async (key: StoredKey, request: ProviderRequest, stream: boolean, signal?: AbortSignal) => {
+    const response = await fetch(endpoint(key, chatPath(key, request.model)), {
+      method: 'POST',
+      headers: headers(key),
+      body: JSON.stringify({
+        model: request.model,
+        messages: [
+          ...(request.system ? [{ role: 'system', content: request.system }] : []),
+          ...request.messages.map(m => ({ role: m.role === 'model' ? 'assistant' : 'user', content: m.text }))
+        ],
+        temperature: request.temperature,
+        stream
+      }),
+      signal
+    });
+    if (!response.ok) throw new Error(await readErrorMessage(response));
+    return response;
+  };
+
+  const getModels = async (key: StoredKey) => {
+    const response = await withTimeout(undefined, timeout => fetch(endpoint(key, '/models'), { headers: headers(key), signal: timeout.signal }));
+    if (!response.ok) throw new Error(await readErrorMessage(response));
+    const data = await response.json();
+    return (data.data || []) as { id: string }[];
+  };
+
+  const adapter: ProviderAdapter = {
+    id: config.id,
+    name: config.name,
+    description: config.description,
+    badgeClassName: config.badgeClassName,
+    models: config.models,
+    defaults: config.defaults,
+    capabilities: {
+      streaming: true,
+      baseUrl: config.baseUrl,
+      requiresKey: config.requiresKey ?? true,
+      customRequest: config.customRequest ?? false,
+      discoversModels: config.discoversModels ?? false,
+    },
+
+    send: (key, request, signal) => withTimeout(signal, async timeout => {
+      const data = await (await post(key, request, false, timeout.signal)).json();
+      return data.choices?.[0]?.message?.content || "";
+    }),
+
+    stream: (key, request, options) => collectStream(append => withTimeout(options.signal, async timeout => {
+      const response = await post(key, request, true, timeout.signal);
+      timeout.touch();
+
+      // Some compatible servers ignore `stream` and answer in one piece
+      if (response.headers.get('Content-Type')?.includes('application/json')) {
+        const data = await response.json();
+        append(data.choices?.[0]?.message?.content || "");
+        return;
+      }
+
+      await readServerSentEvents(response, data => {
+        timeout.touch();
+        if (data === '[DONE]') return;
+        const chunk = JSON.parse(data);
+        if (chunk.error) throw new Error(chunk.error.message || "The stream reported an error.");
+        append(chunk.choices?.[0]?.delta?.content || "");
+      });
+    }), options),
+
+    listModels: async (key) => {
+      if (!config.discoversModels) return adapter.models;
+      const models = await getModels(key);
+      return models.map(m => ({ id: m.id, label: m.id }));
+    },
+
+    validateKey: async (key) => {
+      await getModels(key);
+    },
+  };
+  return adapter;
+};
+
+export const openaiProvider = createOpenAICompatibleProvider({
+  id: 'openai',
+  name: 'OpenAI',
+  badgeClassName: 'bg-green-100 text-green-700',
+  models: [
+    { id: 'gpt-4o', label: 'GPT-4o (Best)' },
+    { id: 'gpt-4-turbo', label: 'GPT-4 Turbo' },
+    { id: 'gpt-3.5-turbo', label: 'GPT-3.5 Turbo (Fast)' },
+  ],
+  defaults: { model: 'gpt-4o', baseUrl: 'https://api.openai.com/v1', keyPlaceholder: 'sk-...' },
+  baseUrl: 'optional',
+});
+
+export const deepseekProvider = createOpenAICompatibleProvider({
+  id: 'deepseek',
+  name: 'DeepSeek',
+  badgeClassName: 'bg-purple-100 text-purple-700',
+  models: [
+    { id: 'deepseek-chat', label: 'DeepSeek V3 (Chat)' },
+    { id: 'deepseek-reasoner', label: 'DeepSeek R1 (Reasoner)' },
+  ],
+  defaults: { model: 'deepseek-chat', baseUrl: 'https://api.deepseek.com', keyPlaceholder: 'sk-...' },
+  baseUrl: 'optional',
+});
+
+export const customProvider = createOpenAICompatibleProvider({
+  id: 'custom',
+  name: 'Custom / OneAPI',
+  badgeClassName: 'bg-slate-100 text-slate-700',
+  models: [
+    { id: 'gpt-4o', label: 'GPT-4o Compatible' },
+    { id: 'gpt-3.5-turbo', label: 'GPT-3.5 Compatible' },
+  ],
+  defaults: { model: 'gpt-4o', keyPlaceholder: 'sk-...' },
+  baseUrl: 'required',
+  customRequest: true,
+});
@@ -0,0 +1,86 @@
+import { StreamOptions } from "../../types";
+
+// Runs a producer of text deltas, collecting them into the reply
+export const collectStream = async (
+  produce: (append: (delta: string) => void) => Promise<void>,
+  stream?: StreamOptions
+): Promise<string> => {
+  let text = '';
+  try {
+    await produce(delta => {
+      if (!delta) return;
+      text += delta;
+      stream?.onText?.(text);
+    });
+  } catch (error) {
+    if (!stream?.signal?.aborted) throw error;
+  }
+  return text;
+};
+
+// Passes the data of each server-sent event in the response body to `onData`
+export const readServerSentEvents = async (response: Response, onData: (data: string) => void) => {
+  if (!response.body) throw new Error("The response has no body to stream.");
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  const dispatch = (event: string) => {
+    const data = event
+      .split(/\r?\n/)
+      .filter(line => line.startsWith('data:'))
+      .map(line => line.slice(5).replace(/^ /, ''))
+      .join('\n');
+    if (data) onData(data);
+  };
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    buffer += decoder.decode(value, { stream: !done });
+    const events = buffer.split(/\r?\n\r?\n/);
+    buffer = done ? '' : events.pop()!;
+    events.forEach(dispatch);
+    if (done) return;
+  }
+};
+
+// Error message of a failed JSON API response, falling back to the HTTP status
+export const readErrorMessage = async (response: Response) => {
+  const err = await response.json().catch(() => ({}));
+  return err.error?.message || `API Error: ${response.statusText}`;
+};
+
+/**
+ * An abort signal that fires when `signal` does, or once `ms` pass without a
+ * call to `touch`. Touching on every piece of a reply gives slow servers the
+ * whole span for each wait rather than for the entire reply.
+ */
+export const createInactivityTimeout = (ms: number | undefined, signal?: AbortSignal) => {
+  const controller = new AbortController();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let timedOut = false;
+
+  const touch = () => {
+    if (ms === undefined) return;
+    clearTimeout(timer);
+    timer = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, ms);
+  };
+  const forward = () => controller.abort();
+
+  if (signal?.aborted) controller.abort();
+  else signal?.addEventListener('abort', forward, { once: true });
+  touch();
+
+  return {
+    signal: controller.signal,
+    touch,
+    hasTimedOut: () => timedOut,
+    stop: () => {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', forward);
+    },
+  };
+};
@@ -3,6 +3,152 @@ export interface DiffPart {
   value: string;
   added?: boolean;
   removed?: boolean;
+  newValue?: string; // Modified-side text of an unchanged part that differs only in ignored ways
+  moved?: boolean; // Removed part is a move source, added part a move destination
+  moveId?: number; // Links a move source to its destination
+  inner?: DiffPart[]; // Character diff of a replacement, shared by its removed and added part
+}
+
+export type DiffGranularity = 'char' | 'word' | 'sentence' | 'line' | 'paragraph';
+
+export type DiffCleanup = 'none' | 'lossless' | 'semantic' | 'efficiency';
+
+export interface NormalizationOptions {
+  ignoreWhitespace?: boolean;
+  ignoreCase?: boolean;
+  ignorePunctuation?: boolean;
+  ignoreWidth?: boolean; // Treat full-width and half-width forms (，/, Ａ/A) as equal
+}
+
+export interface IgnoreRule {
+  id: string;
+  name: string;
+  pattern: string; // RegExp source
+  flags?: string;
+}
+
+export interface IgnoreRuleSet {
+  id: string;
+  name: string;
+  rules: IgnoreRule[];
+  isEnabled: boolean;
+}
+
+export interface DiffOptions {
+  granularity?: DiffGranularity;
+  cleanup?: DiffCleanup;
+  editCost?: number; // Used by 'efficiency' cleanup
+  normalize?: NormalizationOptions;
+  ignoreRules?: IgnoreRule[]; // Text matched by these is compared as a placeholder
+  detectMoves?: boolean;
+  minMoveLength?: number; // Characters a block needs to count as moved
+}
+
+export type HunkContextUnit = 'line' | 'sentence';
+
+export interface HunkItem {
+  part: DiffPart; // A whole part, or a slice of a long unchanged part
+  index: number; // Index of the source part in the diff
+}
+
+export interface DiffHunk {
+  items: HunkItem[];
+  collapsed?: boolean; // Unchanged text hidden behind an expander
+  hiddenCount?: number; // Lines or sentences a collapsed hunk hides
+}
+
+export interface SplitLine {
+  number: number; // 1-based line number on its side
+  items: HunkItem[]; // Slices of the parts on this line, without the line break
+  changed?: boolean; // Holds removed or added text
+}
+
+// One row of the split view; null is a filler where the other side has no counterpart
+export interface SplitRow {
+  original: SplitLine | null;
+  modified: SplitLine | null;
+}
+
+// 'a' / 'b': only that edit changed the chunk; 'both': both made the same change
+export type Diff3ChunkKind = 'unchanged' | 'a' | 'b' | 'both' | 'conflict';
+
+export interface Diff3Chunk {
+  kind: Diff3ChunkKind;
+  base: string;
+  a: string;
+  b: string;
+}
+
+export type ConflictResolution = 'a' | 'b' | 'both' | 'custom';
+
+export type ChangeDecision = 'accepted' | 'rejected';
+
+// One reviewable change: a run of removed/added parts, or both ends of a move
+export interface ReviewChange {
+  removed: string;
+  added: string;
+  context: string; // Unchanged text just before the change
+  moved?: boolean;
+}
+
+// Character range [start, end) of a change in the original and modified text
+export interface ChangeLocation {
+  original: [number, number];
+  modified: [number, number];
+}
+
+// Which text a search in the diff looks at
+export type SearchFilter = 'all' | 'added' | 'removed' | 'unchanged';
+
+export interface SearchQuery {
+  text: string;
+  isRegex?: boolean;
+  caseSensitive?: boolean;
+  filter?: SearchFilter;
+}
+
+export type OverviewMarkKind = 'added' | 'removed' | 'moved';
+
+// A change on the overview ruler; start and end are offsets or fractions, by context
+export interface OverviewMark {
+  kind: OverviewMarkKind;
+  start: number;
+  end: number;
+}
+
+export interface FocusRange {
+  start: number;
+  end: number;
+  key: number; // Changes on every request, so the same range can be focused again
+}
+
+export interface ChangeCounts {
+  added: number;
+  removed: number;
+  unchanged: number; // As the text reads in the modified version
+}
+
+// Readability of one text; ratios are null when the text has nothing to measure them on
+export interface ReadabilityMetrics {
+  sentences: number;
+  words: number; // Words in alphabetic scripts
+  cjkCharacters: number; // Han ideographs and kana
+  fleschReadingEase: number | null; // English formula over alphabetic words; higher is easier
+  wordsPerSentence: number | null;
+  cjkCharactersPerSentence: number | null;
+  passiveVoicePercent: number | null; // Share of sentences with a passive construction, 0-100
+  lexicalDensity: number | null; // Share of content words, 0-1; CJK characters count as words
+}
+
+export interface DiffStats {
+  tokens: ChangeCounts; // Words, CJK characters and punctuation; whitespace is not counted
+  words: ChangeCounts;
+  characters: ChangeCounts; // User-perceived characters
+  similarity: number; // 0-1: share of both texts' characters left unchanged
+  editDistance: number; // 0-1: character edits over the longer text's length
+  sentences: { before: number; after: number };
+  rewrittenPercent: number; // Share of the original removed or replaced, 0-100
+  readability: { before: ReadabilityMetrics; after: ReadabilityMetrics };
 }
 
 export interface AnalysisResult {
@@ -24,23 +170,93 @@ export interface PersonaDefinition {
   isCustom?: boolean;
 }
 
-export type AIProvider = 'google' | 'openai' | 'deepseek' | 'custom';
+export type AIProvider = 'google' | 'openai' | 'deepseek' | 'anthropic' | 'custom' | 'local';
+
+// How a key is sent: 'Authorization: Bearer <key>', an 'api-key' header (Azure), or not at all
+export type AuthScheme = 'bearer' | 'api-key' | 'none';
 
 export interface StoredKey {
   id: string;
   name: string;
-  value: string;
+  value: string; // Empty for providers that need no key
   provider: AIProvider;
   baseUrl?: string;
+  // Request options for providers with `customRequest`, e.g. Azure OpenAI or corporate gateways
+  authScheme?: AuthScheme; // Defaults to 'bearer'
+  extraHeaders?: Record<string, string>;
+  queryParams?: Record<string, string>; // Added to every URL, e.g. api-version
+  pathTemplate?: string; // Chat completions path after the base URL; {model} is replaced
   isActive: boolean;
 }
 
+// --- AI Providers ---
+
+// One turn of a conversation sent to a provider
+export interface ProviderMessage {
+  role: 'user' | 'model';
+  text: string;
+}
+
+export interface ProviderRequest {
+  model: string;
+  system?: string; // Standing instructions, sent the way the provider expects them
+  messages: ProviderMessage[]; // Oldest first, ending with the user's turn
+  temperature?: number;
+}
+
+export interface StreamOptions {
+  onText?: (text: string) => void; // Called with the whole reply so far as it grows
+  signal?: AbortSignal; // Aborting ends the reply early; the text received so far is returned
+}
+
+export interface ProviderModel {
+  id: string;
+  label: string;
+}
+
+export interface ProviderCapabilities {
+  streaming: boolean; // Replies arrive piece by piece
+  baseUrl: 'none' | 'optional' | 'required'; // Whether keys carry an endpoint URL
+  requiresKey: boolean; // False for servers without authentication
+  customRequest: boolean; // Keys may set the auth scheme, headers, query and path
+  discoversModels: boolean; // listModels asks the server instead of returning the built-in list
+}
+
+export interface ProviderDefaults {
+  model: string; // Selected when switching to the provider
+  baseUrl?: string; // Used when a key has none
+  keyPlaceholder: string;
+}
+
+// Everything the app needs to know about a provider; see services/providers
+export interface ProviderAdapter {
+  id: AIProvider;
+  name: string;
+  description?: string; // Setup notes shown when adding a key
+  badgeClassName: string; // Tailwind classes of the provider's badge
+  models: ProviderModel[]; // Built-in choices
+  defaults: ProviderDefaults;
+  capabilities: ProviderCapabilities;
+  send: (key: StoredKey, request: ProviderRequest, signal?: AbortSignal) => Promise<string>;
+  stream: (key: StoredKey, request: ProviderRequest, options: StreamOptions) => Promise<string>;
+  listModels: (key: StoredKey) => Promise<ProviderModel[]>;
+  validateKey: (key: StoredKey) => Promise<void>; // Rejects with the reason the key does not work
+}
+
 export interface ChatMessage {
   id: string;
   role: 'user' | 'model';
   text: string;
   timestamp: number;
   isError?: boolean;
+  isTruncated?: boolean; // The reply was stopped before it finished
+}
+
+export interface Revision {
+  id: string;
+  label: string;
+  text: string;
+  timestamp: number;
 }
 
 export interface HistoryItem {
@@ -48,7 +264,55 @@ export interface HistoryItem {
   timestamp: number;
   originalText: string;
   modifiedText: string;
+  baseText?: string; // Set for three-way comparisons
+  revisions?: Revision[]; // The whole revision stack, when one was tracked
+  revisionPair?: [number, number]; // Revisions that were shown as Original -> Modified
+  summarizesRevisions?: boolean; // The analysis covered every revision, not just the pair
+  stats?: DiffStats; // Of Original -> Modified when the analysis started
   persona: PersonaDefinition;
   question: string;
   messages: ChatMessage[];
 }
+
+// --- Diff Worker Protocol ---
+
+export interface DiffRequest {
+  id: number;
+  oldText: string;
+  newText: string;
+  base?: string; // Three-way mode: oldText and newText are two edits of this text
+  options?: DiffOptions;
+}
+
+// A three-way diff, with each edit's diff from the base for highlighting
+export interface ThreeWayDiff {
+  chunks: Diff3Chunk[];
+  partsA: DiffPart[];
+  partsB: DiffPart[];
+}
+
+export interface DiffResponse {
+  id: number;
+  parts?: DiffPart[];
+  stats?: DiffStats;
+  threeWay?: ThreeWayDiff;
+  error?: string;
+}
+
+export interface BlameSpan {
+  text: string;
+  revision: number; // Index of the revision that introduced the text
+}
+
+// Blame of the last of several revisions, also computed by the diff worker
+export interface BlameRequest {
+  id: number;
+  texts: string[]; // Every revision up to the blamed one, oldest first
+  options?: DiffOptions;
+}
+
+export interface BlameResponse {
+  id: number;
+  spans?: BlameSpan[];
+  error?: string;
+}
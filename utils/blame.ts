@@ -0,0 +1,68 @@
+import { BlameSpan, DiffOptions } from '../types';
+import { computeDiff } from './diffEngine';
+
+const appendSpan = (spans: BlameSpan[], text: string, revision: number) => {
+  if (!text) return;
+  const last = spans[spans.length - 1];
+  if (last && last.revision === revision) last.text += text;
+  else spans.push({ text, revision });
+};
+
+/**
+ * Takes `length` characters of attributed text off the front of `spans`,
+ * starting `offset` characters into spans[0]. Returns the new position.
+ */
+const takeSpans = (
+  spans: BlameSpan[],
+  position: { index: number; offset: number },
+  length: number,
+  emit?: (text: string, revision: number) => void
+) => {
+  let { index, offset } = position;
+  while (length > 0 && index < spans.length) {
+    const span = spans[index];
+    const count = Math.min(length, span.text.length - offset);
+    emit?.(span.text.slice(offset, offset + count), span.revision);
+    length -= count;
+    offset += count;
+    if (offset === span.text.length) {
+      index++;
+      offset = 0;
+    }
+  }
+  return { index, offset };
+};
+
+/**
+ * Attributes every span of the last revision to the revision that introduced
+ * it, by diffing each revision against the one before and carrying the
+ * attribution of unchanged text forward.
+ */
+export const computeBlame = (texts: string[], options: DiffOptions = {}): BlameSpan[] => {
+  if (texts.length === 0) return [];
+  // Moved text counts as rewritten where it lands
+  const diffOptions: DiffOptions = { ...options, detectMoves: false };
+
+  let spans: BlameSpan[] = texts[0] ? [{ text: texts[0], revision: 0 }] : [];
+  for (let revision = 1; revision < texts.length; revision++) {
+    const next: BlameSpan[] = [];
+    let position = { index: 0, offset: 0 };
+
+    for (const part of computeDiff(texts[revision - 1], texts[revision], diffOptions)) {
+      if (part.added) {
+        appendSpan(next, part.value, revision);
+      } else if (part.removed) {
+        position = takeSpans(spans, position, part.value.length);
+      } else if (part.newValue !== undefined) {
+        // Unchanged except in ignored ways: keep the attribution of where it starts
+        const origin = spans[position.index]?.revision ?? revision;
+        position = takeSpans(spans, position, part.value.length);
+        appendSpan(next, part.newValue, origin);
+      } else {
+        position = takeSpans(spans, position, part.value.length, (text, origin) => appendSpan(next, text, origin));
+      }
+    }
+    spans = next;
+  }
+  return spans;
+};
@@ -0,0 +1,102 @@
+import { describe, expect, it } from 'vitest';
+import { DiffPart } from '../types';
+import { cleanupDiff } from './diffCleanup';
+import { computeDiff } from './diffEngine';
+import { sideText } from './partSlice';
+
+const originalOf = (parts: DiffPart[]) => parts.filter(p => !p.added).map(p => sideText(p, 'original')).join('');
+const modifiedOf = (parts: DiffPart[]) => parts.filter(p => !p.removed).map(p => sideText(p, 'modified')).join('');
+
+// Two replacements separated by a short equality
+const replacements = (): DiffPart[] => [
+  { value: 'x' },
+  { value: 'ab', removed: true },
+  { value: 'cd', added: true },
+  { value: 'xy' },
+  { value: 'ef', removed: true },
+  { value: 'gh', added: true },
+  { value: 'z' },
+];
+
+describe('cleanupDiff', () => {
+  it('leaves the parts alone without a mode', () => {
+    const parts = replacements();
+    expect(cleanupDiff(parts, 'none')).toBe(parts);
+  });
+
+  it('slides an edit to word boundaries in lossless mode', () => {
+    const parts = cleanupDiff([{ value: 'The c' }, { value: 'at c', added: true }, { value: 'ame.' }], 'lossless');
+    expect(parts).toEqual([{ value: 'The ' }, { value: 'cat ', added: true }, { value: 'came.' }]);
+  });
+
+  it('keeps short equalities in lossless mode', () => {
+    const parts: DiffPart[] = [
+      { value: 'The ' },
+      { value: 'quick', removed: true },
+      { value: 'slow', added: true },
+      { value: ' a ' },
+      { value: 'fox', removed: true },
+      { value: 'cat', added: true },
+      { value: '.' },
+    ];
+    expect(cleanupDiff(parts.map(p => ({ ...p })), 'lossless')).toEqual(parts);
+  });
+
+  it('absorbs an equality shorter than the edits around it in semantic mode', () => {
+    const parts = cleanupDiff([
+      { value: 'The ' },
+      { value: 'quick', removed: true },
+      { value: 'slow', added: true },
+      { value: ' a ' },
+      { value: 'fox', removed: true },
+      { value: 'cat', added: true },
+      { value: '.' },
+    ], 'semantic');
+    expect(parts).toEqual([
+      { value: 'The ' },
+      { value: 'quick a fox', removed: true },
+      { value: 'slow a cat', added: true },
+      { value: '.' },
+    ]);
+  });
+
+  it('absorbs an equality cheaper than the edit cost in efficiency mode', () => {
+    expect(cleanupDiff(replacements(), 'efficiency', 4)).toEqual([
+      { value: 'x' },
+      { value: 'abxyef', removed: true },
+      { value: 'cdxygh', added: true },
+      { value: 'z' },
+    ]);
+  });
+
+  it('keeps an equality longer than a low edit cost in efficiency mode', () => {
+    expect(cleanupDiff(replacements(), 'efficiency', 1)).toEqual(replacements());
+  });
+
+  it('keeps the modified text of an absorbed equality', () => {
+    const parts = cleanupDiff([
+      { value: 'a' },
+      { value: 'b', removed: true },
+      { value: 'c', newValue: 'C' },
+      { value: 'd', added: true },
+    ], 'semantic');
+    expect(parts).toEqual([{ value: 'a' }, { value: 'bc', removed: true }, { value: 'Cd', added: true }]);
+  });
+
+  it.each(['lossless', 'semantic', 'efficiency'] as const)('preserves both texts in %s mode', mode => {
+    const samples: [string, string][] = [
+      ['The quick brown fox jumps over the lazy dog.', 'A quick red fox jumped over two lazy dogs!'],
+      ['我今天很高兴。明天也许下雨。', '我昨天很难过。明天一定下雨！'],
+      ['Line one\nLine two\n\nLine three', 'Line one\nLine 2\n\nLine three\nLine four'],
+      ['HELLO world, Hello World', 'hello WORLD; hello world'],
+    ];
+    for (const [oldText, newText] of samples) {
+      for (const editCost of [1, 4, 8]) {
+        const raw = computeDiff(oldText, newText, { granularity: 'char', cleanup: 'none', normalize: { ignoreCase: true } });
+        const parts = cleanupDiff(raw, mode, editCost);
+        expect(originalOf(parts)).toBe(oldText);
+        expect(modifiedOf(parts)).toBe(newText);
+      }
+    }
+  });
+});
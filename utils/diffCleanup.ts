@@ -0,0 +1,389 @@
+import { DiffPart, DiffCleanup } from '../types';
+
+/**
+ * Post-processing passes for raw diff output, adapted from Neil Fraser's
+ * diff-match-patch (Apache-2.0).
+ *
+ * Unlike the original, the merge step never factors a shared prefix/suffix
+ * out of a replacement, so edits stay on the token boundaries chosen by the
+ * selected granularity. Equalities may carry a different modified-side text
+ * (see DiffPart.newValue); text is only shifted across exact equalities.
+ */
+
+const DELETE = -1;
+const INSERT = 1;
+const EQUAL = 0;
+
+type Op = typeof DELETE | typeof INSERT | typeof EQUAL;
+// [op, text, modified-side text of an inexact equality]
+type Edit = [Op, string, string?];
+
+const DEFAULT_EDIT_COST = 4;
+
+const toEdits = (parts: DiffPart[]): Edit[] =>
+  parts.map(p => [p.removed ? DELETE : p.added ? INSERT : EQUAL, p.value, p.newValue]);
+
+const modifiedText = (edit: Edit): string => edit[2] ?? edit[1];
+const isExact = (edit: Edit): boolean => edit[0] === EQUAL && edit[2] === undefined;
+
+// Turns the equality at `index` into a deletion of its original text plus an
+// insertion of its modified text
+const absorbEquality = (diffs: Edit[], index: number) => {
+  const equality = diffs[index];
+  diffs.splice(index, 1, [DELETE, equality[1]], [INSERT, modifiedText(equality)]);
+};
+
+// Passes can leave like edits adjacent (e.g. after an equality is emptied); merge them back
+const toParts = (edits: Edit[]): DiffPart[] => {
+  const parts: DiffPart[] = [];
+  let lastOp: Op | null = null;
+  for (const edit of edits) {
+    const [op, text, newText] = edit;
+    if (!text) continue;
+    if (op === lastOp) {
+      const last = parts[parts.length - 1];
+      if (last.newValue !== undefined || newText !== undefined) {
+        last.newValue = (last.newValue ?? last.value) + modifiedText(edit);
+      }
+      last.value += text;
+      continue;
+    }
+    if (op === DELETE) parts.push({ value: text, removed: true });
+    else if (op === INSERT) parts.push({ value: text, added: true });
+    else parts.push(newText === undefined ? { value: text } : { value: text, newValue: newText });
+    lastOp = op;
+  }
+  return parts;
+};
+
+const commonSuffix = (a: string, b: string): number => {
+  const max = Math.min(a.length, b.length);
+  let i = 0;
+  while (i < max && a.charCodeAt(a.length - 1 - i) === b.charCodeAt(b.length - 1 - i)) i++;
+  return i;
+};
+
+/**
+ * Reorders and merges like edits between equalities (deletions first), then
+ * slides single edits sideways over a neighbouring equality when that lets
+ * two equalities merge, e.g. A<ins>BA</ins>C -> <ins>AB</ins>AC.
+ */
+const cleanupMerge = (diffs: Edit[]) => {
+  diffs.push([EQUAL, '']); // Sentinel to flush the last run
+  let pointer = 0;
+  let countDelete = 0;
+  let countInsert = 0;
+  let textDelete = '';
+  let textInsert = '';
+
+  while (pointer < diffs.length) {
+    const [op, text] = diffs[pointer];
+    if (op === INSERT) {
+      countInsert++;
+      textInsert += text;
+      pointer++;
+    } else if (op === DELETE) {
+      countDelete++;
+      textDelete += text;
+      pointer++;
+    } else {
+      if (countDelete + countInsert > 1) {
+        // Collapse the run into at most one deletion and one insertion
+        pointer -= countDelete + countInsert;
+        diffs.splice(pointer, countDelete + countInsert);
+        if (textDelete) diffs.splice(pointer++, 0, [DELETE, textDelete]);
+        if (textInsert) diffs.splice(pointer++, 0, [INSERT, textInsert]);
+        pointer++;
+      } else if (pointer !== 0 && diffs[pointer - 1][0] === EQUAL) {
+        // Merge this equality with the previous one
+        const previous = diffs[pointer - 1];
+        if (previous[2] !== undefined || diffs[pointer][2] !== undefined) {
+          previous[2] = modifiedText(previous) + modifiedText(diffs[pointer]);
+        }
+        previous[1] += text;
+        diffs.splice(pointer, 1);
+      } else {
+        pointer++;
+      }
+      countInsert = 0;
+      countDelete = 0;
+      textDelete = '';
+      textInsert = '';
+    }
+  }
+  if (diffs[diffs.length - 1][1] === '') diffs.pop();
+
+  // Second pass: shift single edits surrounded by equalities
+  let changes = false;
+  pointer = 1;
+  while (pointer < diffs.length - 1) {
+    if (isExact(diffs[pointer - 1]) && isExact(diffs[pointer + 1])) {
+      const before = diffs[pointer - 1][1];
+      const edit = diffs[pointer][1];
+      const after = diffs[pointer + 1][1];
+      if (edit.endsWith(before)) {
+        // Shift the edit over the previous equality
+        diffs[pointer][1] = before + edit.substring(0, edit.length - before.length);
+        diffs[pointer + 1][1] = before + after;
+        diffs.splice(pointer - 1, 1);
+        changes = true;
+      } else if (edit.startsWith(after)) {
+        // Shift the edit over the next equality
+        diffs[pointer - 1][1] += after;
+        diffs[pointer][1] = edit.substring(after.length) + after;
+        diffs.splice(pointer + 1, 1);
+        changes = true;
+      }
+    }
+    pointer++;
+  }
+  if (changes) cleanupMerge(diffs);
+};
+
+const NON_WORD_CHAR = /[^\p{L}\p{N}]/u;
+const CJK_CHAR = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}]/u;
+const CJK_SENTENCE_END = /[\u3002\uff01\uff1f\u2026]/;
+const WHITESPACE_CHAR = /\s/;
+const LINE_BREAK_CHAR = /[\r\n]/;
+const BLANK_LINE_END = /\n\r?\n$/;
+const BLANK_LINE_START = /^\r?\n\r?\n/;
+// A boundary must not split a surrogate pair, a combining sequence or an emoji ZWJ sequence
+const CLUSTER_CONTINUATION = /^(?:[\uDC00-\uDFFF]|\p{M}|\p{Emoji_Modifier}|\u200D)/u;
+
+const splitsCluster = (edit: string, after: string) =>
+  CLUSTER_CONTINUATION.test(edit) || CLUSTER_CONTINUATION.test(after);
+
+/**
+ * Scores how natural the boundary between `one` and `two` is, from
+ * 6 (edge of the text) down to 0 (inside a word).
+ */
+const boundaryScore = (one: string, two: string): number => {
+  if (!one || !two) return 6;
+  const char1 = one.charAt(one.length - 1);
+  const char2 = two.charAt(0);
+  const nonWord1 = NON_WORD_CHAR.test(char1);
+  const nonWord2 = NON_WORD_CHAR.test(char2);
+  const whitespace1 = nonWord1 && WHITESPACE_CHAR.test(char1);
+  const whitespace2 = nonWord2 && WHITESPACE_CHAR.test(char2);
+  const lineBreak1 = whitespace1 && LINE_BREAK_CHAR.test(char1);
+  const lineBreak2 = whitespace2 && LINE_BREAK_CHAR.test(char2);
+  const blankLine1 = lineBreak1 && BLANK_LINE_END.test(one);
+  const blankLine2 = lineBreak2 && BLANK_LINE_START.test(two);
+
+  if (blankLine1 || blankLine2) return 5;
+  if (lineBreak1 || lineBreak2) return 4;
+  // End of sentence
+  if ((nonWord1 && !whitespace1 && whitespace2) || CJK_SENTENCE_END.test(char1)) return 3;
+  if (whitespace1 || whitespace2) return 2;
+  // Punctuation, or a character boundary in CJK text (where every character is a word edge)
+  if (nonWord1 || nonWord2 || CJK_CHAR.test(char1) || CJK_CHAR.test(char2)) return 1;
+  return 0;
+};
+
+/**
+ * Slides single edits between two equalities to the most natural boundary,
+ * e.g. "The c<ins>at c</ins>ame." -> "The <ins>cat </ins>came."
+ */
+const cleanupSemanticLossless = (diffs: Edit[]) => {
+  let pointer = 1;
+  while (pointer < diffs.length - 1) {
+    if (isExact(diffs[pointer - 1]) && isExact(diffs[pointer + 1])) {
+      let equality1 = diffs[pointer - 1][1];
+      let edit = diffs[pointer][1];
+      let equality2 = diffs[pointer + 1][1];
+
+      // First, shift the edit as far left as possible
+      const commonOffset = commonSuffix(equality1, edit);
+      if (commonOffset) {
+        const commonString = edit.substring(edit.length - commonOffset);
+        equality1 = equality1.substring(0, equality1.length - commonOffset);
+        edit = commonString + edit.substring(0, edit.length - commonOffset);
+        equality2 = commonString + equality2;
+      }
+
+      // Second, step right one character at a time, keeping the best fit
+      let bestEquality1 = equality1;
+      let bestEdit = edit;
+      let bestEquality2 = equality2;
+      let bestScore = splitsCluster(edit, equality2)
+        ? -1
+        : boundaryScore(equality1, edit) + boundaryScore(edit, equality2);
+      while (equality2 && edit.charAt(0) === equality2.charAt(0)) {
+        equality1 += edit.charAt(0);
+        edit = edit.substring(1) + equality2.charAt(0);
+        equality2 = equality2.substring(1);
+        if (splitsCluster(edit, equality2)) continue;
+        const score = boundaryScore(equality1, edit) + boundaryScore(edit, equality2);
+        // The >= encourages trailing rather than leading whitespace on edits
+        if (score >= bestScore) {
+          bestScore = score;
+          bestEquality1 = equality1;
+          bestEdit = edit;
+          bestEquality2 = equality2;
+        }
+      }
+
+      if (bestScore >= 0 && diffs[pointer - 1][1] !== bestEquality1) {
+        if (bestEquality1) {
+          diffs[pointer - 1][1] = bestEquality1;
+        } else {
+          diffs.splice(pointer - 1, 1);
+          pointer--;
+        }
+        diffs[pointer][1] = bestEdit;
+        if (bestEquality2) {
+          diffs[pointer + 1][1] = bestEquality2;
+        } else {
+          diffs.splice(pointer + 1, 1);
+          pointer--;
+        }
+      }
+    }
+    pointer++;
+  }
+};
+
+/**
+ * Absorbs equalities that are no longer than the edits on both sides of them
+ * (the "the" kept between two rewritten sentences), then aligns the remaining
+ * edits to word and sentence boundaries.
+ */
+const cleanupSemantic = (diffs: Edit[]) => {
+  let changes = false;
+  const equalities: number[] = []; // Stack of indices where equalities are found
+  let lastEquality: string | null = null;
+  let pointer = 0;
+  // Number of characters changed before and after the last equality
+  let insertions1 = 0;
+  let deletions1 = 0;
+  let insertions2 = 0;
+  let deletions2 = 0;
+
+  while (pointer < diffs.length) {
+    const [op, text] = diffs[pointer];
+    if (op === EQUAL) {
+      equalities.push(pointer);
+      insertions1 = insertions2;
+      deletions1 = deletions2;
+      insertions2 = 0;
+      deletions2 = 0;
+      lastEquality = text;
+    } else {
+      if (op === INSERT) insertions2 += text.length;
+      else deletions2 += text.length;
+
+      if (
+        lastEquality &&
+        lastEquality.length <= Math.max(insertions1, deletions1) &&
+        lastEquality.length <= Math.max(insertions2, deletions2)
+      ) {
+        // Replace the equality with a deletion plus an insertion
+        absorbEquality(diffs, equalities[equalities.length - 1]);
+        // Throw away the equality we just deleted, and the one before it (it needs re-evaluating)
+        equalities.pop();
+        equalities.pop();
+        pointer = equalities.length ? equalities[equalities.length - 1] : -1;
+        insertions1 = 0;
+        deletions1 = 0;
+        insertions2 = 0;
+        deletions2 = 0;
+        lastEquality = null;
+        changes = true;
+      }
+    }
+    pointer++;
+  }
+
+  if (changes) cleanupMerge(diffs);
+  cleanupSemanticLossless(diffs);
+};
+
+/**
+ * Absorbs short equalities whose cost to display exceeds their value, where
+ * every edit costs `editCost` characters of reading effort.
+ */
+const cleanupEfficiency = (diffs: Edit[], editCost: number) => {
+  let changes = false;
+  const equalities: number[] = [];
+  let lastEquality: string | null = null;
+  let pointer = 0;
+  // Is there an insertion/deletion operation before/after the last equality
+  let preIns = false;
+  let preDel = false;
+  let postIns = false;
+  let postDel = false;
+
+  while (pointer < diffs.length) {
+    const [op, text] = diffs[pointer];
+    if (op === EQUAL) {
+      if (text.length < editCost && (postIns || postDel)) {
+        // Candidate found
+        equalities.push(pointer);
+        preIns = postIns;
+        preDel = postDel;
+        lastEquality = text;
+      } else {
+        // Not a candidate, and can never become one
+        equalities.length = 0;
+        lastEquality = null;
+      }
+      postIns = false;
+      postDel = false;
+    } else {
+      if (op === DELETE) postDel = true;
+      else postIns = true;
+
+      // Five types to be split:
+      // <ins>A</ins><del>B</del>XY<ins>C</ins><del>D</del>
+      // <ins>A</ins>X<ins>C</ins><del>D</del>
+      // <ins>A</ins><del>B</del>X<ins>C</ins>
+      // <del>B</del>X<ins>C</ins><del>D</del>
+      // <ins>A</ins><del>B</del>X<del>C</del>
+      const sides = Number(preIns) + Number(preDel) + Number(postIns) + Number(postDel);
+      if (
+        lastEquality &&
+        ((preIns && preDel && postIns && postDel) || (lastEquality.length < editCost / 2 && sides === 3))
+      ) {
+        absorbEquality(diffs, equalities[equalities.length - 1]);
+        equalities.pop();
+        lastEquality = null;
+        if (preIns && preDel) {
+          // No changes made which could affect previous entry, keep going
+          postIns = true;
+          postDel = true;
+          equalities.length = 0;
+        } else {
+          equalities.pop();
+          pointer = equalities.length ? equalities[equalities.length - 1] : -1;
+          postIns = false;
+          postDel = false;
+        }
+        changes = true;
+      }
+    }
+    pointer++;
+  }
+
+  if (changes) cleanupMerge(diffs);
+};
+
+/**
+ * Runs the selected cleanup pass over a part list.
+ * - lossless: only moves edit boundaries to word/sentence edges.
+ * - semantic: also absorbs tiny equalities into the surrounding edits.
+ * - efficiency: absorbs equalities cheaper to re-type than to read around.
+ */
+export const cleanupDiff = (
+  parts: DiffPart[],
+  mode: DiffCleanup = 'none',
+  editCost: number = DEFAULT_EDIT_COST
+): DiffPart[] => {
+  if (mode === 'none' || parts.length < 2) return parts;
+
+  const diffs = toEdits(parts);
+  if (mode === 'lossless') cleanupSemanticLossless(diffs);
+  else if (mode === 'semantic') cleanupSemantic(diffs);
+  else cleanupEfficiency(diffs, editCost);
+
+  return toParts(diffs);
+};
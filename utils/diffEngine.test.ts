@@ -0,0 +1,180 @@
+import { describe, expect, it } from 'vitest';
+import { Diff3Chunk, DiffPart } from '../types';
+import { computeDiff, computeDiff3, diff3ToParts, resolveChunk } from './diffEngine';
+import { sideText } from './partSlice';
+import { tokenize } from './tokenizer';
+
+const originalOf = (parts: DiffPart[]) => parts.filter(p => !p.added).map(p => sideText(p, 'original')).join('');
+const modifiedOf = (parts: DiffPart[]) => parts.filter(p => !p.removed).map(p => sideText(p, 'modified')).join('');
+
+// Deterministic pseudo-random strings, so failures reproduce
+const createRandom = (seed: number) => () => {
+  seed = (seed * 1103515245 + 12345) % 2147483648;
+  return seed / 2147483648;
+};
+
+const randomText = (random: () => number, alphabet: string, maxLength: number) =>
+  Array.from({ length: Math.floor(random() * (maxLength + 1)) }, () => alphabet[Math.floor(random() * alphabet.length)]).join('');
+
+// Length of the longest common subsequence, by dynamic programming
+const lcsLength = (a: string[], b: string[]) => {
+  const row = new Array(b.length + 1).fill(0);
+  for (let i = 1; i <= a.length; i++) {
+    let diagonal = 0;
+    for (let j = 1; j <= b.length; j++) {
+      const above = row[j];
+      row[j] = a[i - 1] === b[j - 1] ? diagonal + 1 : Math.max(row[j], row[j - 1]);
+      diagonal = above;
+    }
+  }
+  return row[b.length];
+};
+
+const countChanged = (parts: DiffPart[]) =>
+  parts.filter(p => p.added || p.removed).reduce((sum, p) => sum + tokenize(p.value, 'char').length, 0);
+
+describe('computeDiff', () => {
+  it('returns no parts for two empty texts', () => {
+    expect(computeDiff('', '')).toEqual([]);
+  });
+
+  it('adds everything when the original is empty', () => {
+    expect(computeDiff('', 'new text')).toEqual([{ value: 'new text', added: true }]);
+  });
+
+  it('removes everything when the modified text is empty', () => {
+    expect(computeDiff('old text', '')).toEqual([{ value: 'old text', removed: true }]);
+  });
+
+  it('keeps identical texts as a single unchanged part', () => {
+    const text = 'The same sentence.\n同じ文です。';
+    expect(computeDiff(text, text)).toEqual([{ value: text }]);
+  });
+
+  it('marks a replaced word', () => {
+    const parts = computeDiff('The cat sat.', 'The dog sat.', { cleanup: 'none' });
+    expect(parts.map(({ inner: _, ...p }) => p)).toEqual([
+      { value: 'The ' },
+      { value: 'cat', removed: true },
+      { value: 'dog', added: true },
+      { value: ' sat.' },
+    ]);
+  });
+
+  it('diffs Chinese by character', () => {
+    const parts = computeDiff('我喜欢猫', '我喜欢狗', { cleanup: 'none' });
+    expect(parts.filter(p => p.removed).map(p => p.value)).toEqual(['猫']);
+    expect(parts.filter(p => p.added).map(p => p.value)).toEqual(['狗']);
+  });
+
+  it.each(['char', 'word', 'sentence', 'line', 'paragraph'] as const)('round-trips both texts at %s granularity', granularity => {
+    const random = createRandom(7);
+    for (let run = 0; run < 200; run++) {
+      const oldText = randomText(random, 'ab c.\n猫', 30);
+      const newText = randomText(random, 'ab c.\n猫', 30);
+      const parts = computeDiff(oldText, newText, { granularity, cleanup: 'none' });
+      expect(originalOf(parts)).toBe(oldText);
+      expect(modifiedOf(parts)).toBe(newText);
+    }
+  });
+
+  it('finds a minimal edit script', () => {
+    const random = createRandom(42);
+    for (let run = 0; run < 300; run++) {
+      const oldText = randomText(random, 'abc', 14);
+      const newText = randomText(random, 'abc', 14);
+      const parts = computeDiff(oldText, newText, { granularity: 'char', cleanup: 'none' });
+      const lcs = lcsLength([...oldText], [...newText]);
+      expect(countChanged(parts)).toBe(oldText.length + newText.length - 2 * lcs);
+    }
+  });
+
+  it('keeps the modified text of parts equal only under normalization', () => {
+    const parts = computeDiff('Hello World', 'hello   world', { normalize: { ignoreCase: true, ignoreWhitespace: true } });
+    expect(parts.every(p => !p.added && !p.removed)).toBe(true);
+    expect(originalOf(parts)).toBe('Hello World');
+    expect(modifiedOf(parts)).toBe('hello   world');
+  });
+});
+
+const merged = (chunks: Diff3Chunk[]) => chunks.map(chunk => resolveChunk(chunk)).join('');
+const changedKinds = (chunks: Diff3Chunk[]) => chunks.filter(c => c.kind !== 'unchanged').map(c => c.kind);
+
+describe('computeDiff3', () => {
+  const base = 'The cat sat on the mat.';
+
+  it('keeps a text no side changed as unchanged', () => {
+    expect(changedKinds(computeDiff3(base, base, base))).toEqual([]);
+  });
+
+  it('takes a change made only on side a', () => {
+    const chunks = computeDiff3(base, 'The dog sat on the mat.', base);
+    expect(changedKinds(chunks)).toEqual(['a']);
+    expect(merged(chunks)).toBe('The dog sat on the mat.');
+  });
+
+  it('takes a change made only on side b', () => {
+    const chunks = computeDiff3(base, base, 'The cat sat on the rug.');
+    expect(changedKinds(chunks)).toEqual(['b']);
+    expect(merged(chunks)).toBe('The cat sat on the rug.');
+  });
+
+  it('merges changes to different places on each side', () => {
+    const chunks = computeDiff3(base, 'The dog sat on the mat.', 'The cat sat on the rug.');
+    expect(changedKinds(chunks)).toEqual(['a', 'b']);
+    expect(merged(chunks)).toBe('The dog sat on the rug.');
+  });
+
+  it('takes the same change made on both sides once', () => {
+    const chunks = computeDiff3(base, 'The dog sat on the mat.', 'The dog sat on the mat.');
+    expect(changedKinds(chunks)).toEqual(['both']);
+    expect(merged(chunks)).toBe('The dog sat on the mat.');
+  });
+
+  it('reports different changes to the same place as a conflict', () => {
+    const chunks = computeDiff3(base, 'The dog sat on the mat.', 'The bird sat on the mat.');
+    const conflict = chunks.find(c => c.kind === 'conflict')!;
+    expect(changedKinds(chunks)).toEqual(['conflict']);
+    expect(conflict).toEqual({ kind: 'conflict', base: 'cat', a: 'dog', b: 'bird' });
+    expect(merged(chunks)).toBe('The <<<<<<< A\ndog\n=======\nbird\n>>>>>>> B sat on the mat.');
+  });
+});
+
+describe('resolveChunk', () => {
+  const conflict: Diff3Chunk = { kind: 'conflict', base: 'cat', a: 'dog', b: 'bird' };
+
+  it('writes the chosen side of a conflict', () => {
+    expect(resolveChunk(conflict, 'a')).toBe('dog');
+    expect(resolveChunk(conflict, 'b')).toBe('bird');
+    expect(resolveChunk(conflict, 'both')).toBe('dogbird');
+    expect(resolveChunk(conflict, 'custom', 'fish')).toBe('fish');
+  });
+
+  it('ignores a resolution for a chunk that merges cleanly', () => {
+    expect(resolveChunk({ kind: 'b', base: 'cat', a: 'cat', b: 'dog' }, 'a')).toBe('dog');
+  });
+});
+
+describe('diff3ToParts', () => {
+  it('rebuilds the base and each side exactly', () => {
+    const random = createRandom(3);
+    for (let run = 0; run < 200; run++) {
+      const base = randomText(random, 'ab c.\n', 24);
+      const a = randomText(random, 'ab c.\n', 24);
+      const b = randomText(random, 'ab c.\n', 24);
+      const chunks = computeDiff3(base, a, b, { granularity: 'char' });
+      for (const [side, text] of [['a', a], ['b', b]] as const) {
+        const parts = diff3ToParts(chunks, side);
+        expect(originalOf(parts)).toBe(base);
+        expect(modifiedOf(parts)).toBe(text);
+      }
+    }
+  });
+
+  it('leaves out changes made only on the other side', () => {
+    const chunks = computeDiff3('The cat sat on the mat.', 'The dog sat on the mat.', 'The cat sat on the rug.');
+    const partsA = diff3ToParts(chunks, 'a');
+    expect(partsA.filter(p => p.removed).map(p => p.value)).toEqual(['cat']);
+    expect(partsA.filter(p => p.added).map(p => p.value)).toEqual(['dog']);
+  });
+});
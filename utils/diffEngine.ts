@@ -1,86 +1,383 @@
-import { DiffPart } from '../types';
+import { DiffPart, DiffOptions, Diff3Chunk, ConflictResolution } from '../types';
+import { tokenize } from './tokenizer';
+import { cleanupDiff } from './diffCleanup';
+import { normalizeTokens } from './textNormalizer';
+import { applyIgnoreRules } from './ignoreRules';
+import { detectMoves } from './moveDetection';
+import { pairReplacements } from './replacements';
 
 /**
- * Tokenizes text into meaningful units for diffing.
- * - English/Numbers: Grouped as words (e.g., "Hello", "123").
- * - Chinese/CJK: Split individually (e.g., "你", "好").
- * - Whitespace: Grouped (preserves formatting).
- * - Punctuation: Grouped.
+ * Maps every distinct comparison key to a small integer so the hot loops of
+ * the diff compare numbers instead of strings.
  */
-const tokenize = (text: string): string[] => {
-  if (!text) return [];
-  // Regex breakdown:
-  // 1. [a-zA-Z0-9_]+ : Alphanumeric words (English-like) - grouped as one token
-  // 2. [\u4e00-\u9fa5] : CJK Unified Ideographs (standard Chinese range) - match individually
-  // 3. \s+ : Whitespace sequences (newlines, spaces) - grouped
-  // 4. [^a-zA-Z0-9_\s\u4e00-\u9fa5]+ : Punctuation and other symbols - grouped
-  const regex = /[a-zA-Z0-9_]+|[\u4e00-\u9fa5]|\s+|[^a-zA-Z0-9_\s\u4e00-\u9fa5]+/g;
-  return text.match(regex) || [];
+const encodeKeys = (oldKeys: string[], newKeys: string[]): [Int32Array, Int32Array] => {
+  const ids = new Map<string, number>();
+  const encode = (keys: string[]) => {
+    const out = new Int32Array(keys.length);
+    for (let i = 0; i < keys.length; i++) {
+      let id = ids.get(keys[i]);
+      if (id === undefined) {
+        id = ids.size;
+        ids.set(keys[i], id);
+      }
+      out[i] = id;
+    }
+    return out;
+  };
+  return [encode(oldKeys), encode(newKeys)];
 };
 
 /**
- * A simplified Myers Diff algorithm / LCS implementation to find differences between two strings.
- * Optimised for word-level diffing (English) and character-level diffing (Chinese).
+ * Appends a part, merging it into the previous one when both are of the same
+ * type to reduce DOM elements.
  */
-export const computeDiff = (oldText: string, newText: string): DiffPart[] => {
-  // Tokenize the input strings instead of splitting by character
-  const oldTokens = tokenize(oldText);
-  const newTokens = tokenize(newText);
-  
-  const N = oldTokens.length;
-  const M = newTokens.length;
-  
-  // LCS Matrix
-  // We build a matrix based on the number of tokens.
-  const lcsMatrix = Array(N + 1).fill(null).map(() => Array(M + 1).fill(0));
-  
-  for (let i = 1; i <= N; i++) {
-    for (let j = 1; j <= M; j++) {
-      if (oldTokens[i - 1] === newTokens[j - 1]) {
-        lcsMatrix[i][j] = lcsMatrix[i - 1][j - 1] + 1;
-      } else {
-        lcsMatrix[i][j] = Math.max(lcsMatrix[i - 1][j], lcsMatrix[i][j - 1]);
-      }
+const appendPart = (parts: DiffPart[], part: DiffPart) => {
+  if (!part.value && !part.newValue) return;
+  const last = parts[parts.length - 1];
+  if (last && last.added === part.added && last.removed === part.removed) {
+    if (last.newValue !== undefined || part.newValue !== undefined) {
+      last.newValue = (last.newValue ?? last.value) + (part.newValue ?? part.value);
     }
+    last.value += part.value;
+  } else {
+    parts.push(part);
   }
-  
-  // Backtrack to generate diff
-  let i = N;
-  let j = M;
-  const parts: DiffPart[] = [];
-  
-  while (i > 0 || j > 0) {
-    if (i > 0 && j > 0 && oldTokens[i - 1] === newTokens[j - 1]) {
-      parts.unshift({ value: oldTokens[i - 1] });
-      i--;
-      j--;
-    } else if (j > 0 && (i === 0 || lcsMatrix[i][j - 1] >= lcsMatrix[i - 1][j])) {
-      parts.unshift({ value: newTokens[j - 1], added: true });
-      j--;
-    } else if (i > 0 && (j === 0 || lcsMatrix[i][j - 1] < lcsMatrix[i - 1][j])) {
-      parts.unshift({ value: oldTokens[i - 1], removed: true });
-      i--;
+};
+
+interface DiffContext {
+  oldTokens: string[];
+  newTokens: string[];
+  oldIds: Int32Array;
+  newIds: Int32Array;
+  parts: DiffPart[];
+  matches?: Int32Array; // When set, records the new index each unchanged old token maps to
+}
+
+// Unchanged tokens may still differ in ignored ways; keep both sides' real text
+const emitEqual = (ctx: DiffContext, oldStart: number, oldEnd: number, newStart: number) => {
+  if (ctx.matches) {
+    for (let i = oldStart; i < oldEnd; i++) ctx.matches[i] = newStart + i - oldStart;
+  }
+  const value = ctx.oldTokens.slice(oldStart, oldEnd).join('');
+  const newValue = ctx.newTokens.slice(newStart, newStart + oldEnd - oldStart).join('');
+  appendPart(ctx.parts, newValue === value ? { value } : { value, newValue });
+};
+
+const emitRemoved = (ctx: DiffContext, start: number, end: number) =>
+  appendPart(ctx.parts, { value: ctx.oldTokens.slice(start, end).join(''), removed: true });
+
+const emitAdded = (ctx: DiffContext, start: number, end: number) =>
+  appendPart(ctx.parts, { value: ctx.newTokens.slice(start, end).join(''), added: true });
+
+/**
+ * Diffs oldIds[oldLo..oldHi) against newIds[newLo..newHi).
+ * Strips the common prefix/suffix, then splits the remaining region at the
+ * middle snake and recurses on both halves.
+ */
+const diffRange = (
+  ctx: DiffContext,
+  oldLo: number,
+  oldHi: number,
+  newLo: number,
+  newHi: number
+) => {
+  const { oldIds, newIds } = ctx;
+  // Common prefix
+  const prefixStart = oldLo;
+  const newPrefixStart = newLo;
+  while (oldLo < oldHi && newLo < newHi && oldIds[oldLo] === newIds[newLo]) {
+    oldLo++;
+    newLo++;
+  }
+  emitEqual(ctx, prefixStart, oldLo, newPrefixStart);
+
+  // Common suffix (emitted after the middle section)
+  const suffixEnd = oldHi;
+  while (oldLo < oldHi && newLo < newHi && oldIds[oldHi - 1] === newIds[newHi - 1]) {
+    oldHi--;
+    newHi--;
+  }
+
+  if (oldLo === oldHi) {
+    emitAdded(ctx, newLo, newHi);
+  } else if (newLo === newHi) {
+    emitRemoved(ctx, oldLo, oldHi);
+  } else {
+    const split = findMiddleSnake(oldIds, newIds, oldLo, oldHi, newLo, newHi);
+    if (split) {
+      diffRange(ctx, oldLo, split[0], newLo, split[1]);
+      diffRange(ctx, split[0], oldHi, split[1], newHi);
+    } else {
+      // Nothing in common
+      emitRemoved(ctx, oldLo, oldHi);
+      emitAdded(ctx, newLo, newHi);
     }
   }
-  
-  // Merge adjacent parts of the same type to reduce DOM elements
-  const mergedParts: DiffPart[] = [];
-  if (parts.length > 0) {
-    let current = parts[0];
-    for (let k = 1; k < parts.length; k++) {
-      const next = parts[k];
-      if (
-        (current.added === next.added) && 
-        (current.removed === next.removed)
-      ) {
-        current.value += next.value;
-      } else {
-        mergedParts.push(current);
-        current = next;
+
+  emitEqual(ctx, oldHi, suffixEnd, newHi);
+};
+
+/**
+ * Myers' bidirectional search for the middle snake of an edit script.
+ * Runs the forward and reverse D-paths simultaneously in O(N + M) space and
+ * returns the absolute [oldIndex, newIndex] where they overlap, or null when
+ * the two ranges share no tokens at all.
+ */
+const findMiddleSnake = (
+  oldIds: Int32Array,
+  newIds: Int32Array,
+  oldLo: number,
+  oldHi: number,
+  newLo: number,
+  newHi: number
+): [number, number] | null => {
+  const n = oldHi - oldLo;
+  const m = newHi - newLo;
+  const maxD = Math.ceil((n + m) / 2);
+  const vOffset = maxD;
+  const vLength = 2 * maxD;
+  const v1 = new Int32Array(vLength).fill(-1);
+  const v2 = new Int32Array(vLength).fill(-1);
+  v1[vOffset + 1] = 0;
+  v2[vOffset + 1] = 0;
+
+  const delta = n - m;
+  // If the total number of tokens is odd, the forward path collides with the reverse path.
+  const front = delta % 2 !== 0;
+
+  // Offsets for the start and end of the k loops; these prevent mapping of space beyond the grid.
+  let k1start = 0;
+  let k1end = 0;
+  let k2start = 0;
+  let k2end = 0;
+
+  for (let d = 0; d < maxD; d++) {
+    // Walk the forward path one step.
+    for (let k1 = -d + k1start; k1 <= d - k1end; k1 += 2) {
+      const k1Offset = vOffset + k1;
+      let x1 = (k1 === -d || (k1 !== d && v1[k1Offset - 1] < v1[k1Offset + 1]))
+        ? v1[k1Offset + 1]
+        : v1[k1Offset - 1] + 1;
+      let y1 = x1 - k1;
+      while (x1 < n && y1 < m && oldIds[oldLo + x1] === newIds[newLo + y1]) {
+        x1++;
+        y1++;
+      }
+      v1[k1Offset] = x1;
+      if (x1 > n) {
+        // Ran off the right of the graph.
+        k1end += 2;
+      } else if (y1 > m) {
+        // Ran off the bottom of the graph.
+        k1start += 2;
+      } else if (front) {
+        const k2Offset = vOffset + delta - k1;
+        if (k2Offset >= 0 && k2Offset < vLength && v2[k2Offset] !== -1) {
+          // Mirror x2 onto the top-left coordinate system.
+          const x2 = n - v2[k2Offset];
+          if (x1 >= x2) return [oldLo + x1, newLo + y1];
+        }
+      }
+    }
+
+    // Walk the reverse path one step.
+    for (let k2 = -d + k2start; k2 <= d - k2end; k2 += 2) {
+      const k2Offset = vOffset + k2;
+      let x2 = (k2 === -d || (k2 !== d && v2[k2Offset - 1] < v2[k2Offset + 1]))
+        ? v2[k2Offset + 1]
+        : v2[k2Offset - 1] + 1;
+      let y2 = x2 - k2;
+      while (x2 < n && y2 < m && oldIds[oldHi - x2 - 1] === newIds[newHi - y2 - 1]) {
+        x2++;
+        y2++;
+      }
+      v2[k2Offset] = x2;
+      if (x2 > n) {
+        k2end += 2;
+      } else if (y2 > m) {
+        k2start += 2;
+      } else if (!front) {
+        const k1Offset = vOffset + delta - k2;
+        if (k1Offset >= 0 && k1Offset < vLength && v1[k1Offset] !== -1) {
+          const x1 = v1[k1Offset];
+          const y1 = vOffset + x1 - k1Offset;
+          if (x1 >= n - x2) return [oldLo + x1, newLo + y1];
+        }
+      }
+    }
+  }
+
+  return null;
+};
+
+// Tokenize the input strings instead of splitting by character,
+// then pair each token with the key it is compared by
+const toUnits = (text: string, options: DiffOptions) => {
+  const masked = applyIgnoreRules(text, tokenize(text, options.granularity || 'word'), options.ignoreRules);
+  return normalizeTokens(masked.tokens, options.normalize, masked.keys);
+};
+
+/**
+ * Myers O(ND) diff with linear-space middle-snake recursion.
+ * The granularity option picks the diff unit; the default 'word' mode diffs
+ * English by word and Chinese by character. Tokens are compared by a key
+ * with ignore-rule matches masked (see ignoreRules.ts) and normalization
+ * applied (see textNormalizer.ts). The cleanup option runs a
+ * post-processing pass over the result (see diffCleanup.ts), after which
+ * relocated blocks can be marked as moves (see moveDetection.ts).
+ */
+export const computeDiff = (oldText: string, newText: string, options: DiffOptions = {}): DiffPart[] => {
+  const granularity = options.granularity || 'word';
+
+  const oldUnits = toUnits(oldText, options);
+  const newUnits = toUnits(newText, options);
+  const oldTokens = oldUnits.tokens;
+  const newTokens = newUnits.tokens;
+
+  const [oldIds, newIds] = encodeKeys(oldUnits.keys, newUnits.keys);
+  const ctx: DiffContext = { oldTokens, newTokens, oldIds, newIds, parts: [] };
+  diffRange(ctx, 0, oldIds.length, 0, newIds.length);
+
+  const cleaned = cleanupDiff(ctx.parts, options.cleanup, options.editCost);
+  const parts = options.detectMoves ? detectMoves(cleaned, options.minMoveLength) : cleaned;
+  if (granularity === 'char') return parts;
+
+  // Spell out what changed inside each replaced word, sentence or line
+  return pairReplacements(parts, (removed, added) =>
+    computeDiff(removed, added, { granularity: 'char', cleanup: 'semantic', normalize: options.normalize })
+  );
+};
+
+// --- Three-Way Diff ---
+
+interface Units {
+  tokens: string[];
+  keys: string[];
+}
+
+// Index in the edited text of each base token it keeps, or -1 where it was changed
+const matchBase = (base: Units, edited: Units): Int32Array => {
+  const [baseIds, editedIds] = encodeKeys(base.keys, edited.keys);
+  const matches = new Int32Array(baseIds.length).fill(-1);
+  const ctx: DiffContext = {
+    oldTokens: base.tokens,
+    newTokens: edited.tokens,
+    oldIds: baseIds,
+    newIds: editedIds,
+    parts: [],
+    matches
+  };
+  diffRange(ctx, 0, baseIds.length, 0, editedIds.length);
+  return matches;
+};
+
+interface ChunkRange {
+  stable: boolean;
+  base: [number, number];
+  a: [number, number];
+  b: [number, number];
+}
+
+/**
+ * Three-way diff of two independent edits (a, b) of a common base.
+ * The base is split into stable chunks that both edits kept and unstable
+ * chunks where at least one of them changed something. An unstable chunk
+ * changed by only one side (or identically by both) merges cleanly; one
+ * changed differently by both sides is a conflict.
+ */
+export const computeDiff3 = (base: string, a: string, b: string, options: DiffOptions = {}): Diff3Chunk[] => {
+  const baseUnits = toUnits(base, options);
+  const aUnits = toUnits(a, options);
+  const bUnits = toUnits(b, options);
+  const matchA = matchBase(baseUnits, aUnits);
+  const matchB = matchBase(baseUnits, bUnits);
+  const baseLength = baseUnits.tokens.length;
+
+  const ranges: ChunkRange[] = [];
+  let i = 0;
+  let ia = 0;
+  let ib = 0;
+  while (i < baseLength || ia < aUnits.tokens.length || ib < bUnits.tokens.length) {
+    if (i < baseLength && matchA[i] === ia && matchB[i] === ib) {
+      // Stable: kept in place by both edits
+      const start = i;
+      while (i < baseLength && matchA[i] === ia && matchB[i] === ib) {
+        i++;
+        ia++;
+        ib++;
       }
+      ranges.push({ stable: true, base: [start, i], a: [ia - (i - start), ia], b: [ib - (i - start), ib] });
+      continue;
+    }
+
+    // Unstable: runs up to the next base token both edits kept
+    let next = i;
+    while (next < baseLength && (matchA[next] === -1 || matchB[next] === -1)) next++;
+    const aEnd = next < baseLength ? matchA[next] : aUnits.tokens.length;
+    const bEnd = next < baseLength ? matchB[next] : bUnits.tokens.length;
+    ranges.push({ stable: false, base: [i, next], a: [ia, aEnd], b: [ib, bEnd] });
+    i = next;
+    ia = aEnd;
+    ib = bEnd;
+  }
+
+  const slice = (units: Units, [start, end]: [number, number]) => units.tokens.slice(start, end).join('');
+  const sameKeys = (x: Units, [xs, xe]: [number, number], y: Units, [ys, ye]: [number, number]) =>
+    xe - xs === ye - ys && x.keys.slice(xs, xe).every((key, k) => key === y.keys[ys + k]);
+
+  return ranges.map(range => {
+    const chunk = { base: slice(baseUnits, range.base), a: slice(aUnits, range.a), b: slice(bUnits, range.b) };
+    if (range.stable) return { ...chunk, kind: 'unchanged' };
+    const aChanged = !sameKeys(baseUnits, range.base, aUnits, range.a);
+    const bChanged = !sameKeys(baseUnits, range.base, bUnits, range.b);
+    if (!aChanged && !bChanged) return { ...chunk, kind: 'unchanged' };
+    if (!bChanged) return { ...chunk, kind: 'a' };
+    if (!aChanged) return { ...chunk, kind: 'b' };
+    return { ...chunk, kind: sameKeys(aUnits, range.a, bUnits, range.b) ? 'both' : 'conflict' };
+  });
+};
+
+/**
+ * Text of a three-way chunk in the merged result. Unresolved conflicts are
+ * written with conventional conflict markers.
+ */
+export const resolveChunk = (chunk: Diff3Chunk, resolution?: ConflictResolution, customText?: string): string => {
+  switch (chunk.kind) {
+    case 'unchanged':
+    case 'a':
+    case 'both':
+      return chunk.a;
+    case 'b':
+      return chunk.b;
+  }
+  switch (resolution) {
+    case 'a':
+      return chunk.a;
+    case 'b':
+      return chunk.b;
+    case 'both':
+      return chunk.a + chunk.b;
+    case 'custom':
+      return customText ?? '';
+    default:
+      return `<<<<<<< A\n${chunk.a}\n=======\n${chunk.b}\n>>>>>>> B`;
+  }
+};
+
+/**
+ * The diff from the base to one edit, rebuilt from three-way chunks, so the
+ * edit's input panel can highlight what it changed.
+ */
+export const diff3ToParts = (chunks: Diff3Chunk[], side: 'a' | 'b'): DiffPart[] => {
+  const parts: DiffPart[] = [];
+  for (const chunk of chunks) {
+    const changed = chunk.kind !== 'unchanged' && !(chunk.kind === (side === 'a' ? 'b' : 'a'));
+    if (changed) {
+      appendPart(parts, { value: chunk.base, removed: true });
+      appendPart(parts, { value: chunk[side], added: true });
+    } else {
+      appendPart(parts, chunk[side] === chunk.base ? { value: chunk.base } : { value: chunk.base, newValue: chunk[side] });
     }
-    mergedParts.push(current);
   }
-  
-  return mergedParts;
-};
\ No newline at end of file
+  return parts;
+};
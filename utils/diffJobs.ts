@@ -0,0 +1,21 @@
+import { computeDiff, computeDiff3, diff3ToParts } from './diffEngine';
+import { computeDiffStats } from './diffStats';
+import { computeBlame } from './blame';
+import { BlameRequest, BlameResponse, DiffRequest, DiffResponse } from '../types';
+
+/**
+ * The work behind each diff worker request. The hooks run these directly
+ * where workers are unavailable.
+ */
+export const runDiffJob = ({ oldText, newText, base, options }: Omit<DiffRequest, 'id'>): Omit<DiffResponse, 'id'> => {
+  if (base !== undefined) {
+    const chunks = computeDiff3(base, oldText, newText, options);
+    return { threeWay: { chunks, partsA: diff3ToParts(chunks, 'a'), partsB: diff3ToParts(chunks, 'b') } };
+  }
+  const parts = computeDiff(oldText, newText, options);
+  return { parts, stats: computeDiffStats(parts) };
+};
+
+export const runBlameJob = ({ texts, options }: Omit<BlameRequest, 'id'>): Omit<BlameResponse, 'id'> => ({
+  spans: computeBlame(texts, options),
+});
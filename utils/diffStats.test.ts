@@ -0,0 +1,20 @@
+import { describe, expect, it } from 'vitest';
+import { computeDiff } from './diffEngine';
+import { computeDiffStats } from './diffStats';
+
+describe('computeDiffStats', () => {
+  it('counts a replaced word on each side', () => {
+    const stats = computeDiffStats(computeDiff('The cat sat.', 'The dog sat.'));
+    expect(stats.words).toEqual({ added: 1, removed: 1, unchanged: 2 });
+    expect(stats.characters).toEqual({ added: 3, removed: 3, unchanged: 9 });
+    expect(stats.similarity).toBe(0.75);
+  });
+
+  it('measures the modified side of text equal only under normalization', () => {
+    const stats = computeDiffStats(computeDiff('Hello World', 'hello   world', { normalize: { ignoreCase: true, ignoreWhitespace: true } }));
+    expect(stats.characters).toEqual({ added: 0, removed: 0, unchanged: 13 });
+    expect(stats.similarity).toBe(1);
+    expect(stats.editDistance).toBe(0);
+    expect(stats.rewrittenPercent).toBe(0);
+  });
+});
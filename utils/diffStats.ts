@@ -0,0 +1,68 @@
+import { ChangeCounts, DiffPart, DiffStats } from '../types';
+import { tokenize } from './tokenizer';
+import { computeReadability } from './readability';
+
+const WORD_TOKEN = /[\p{L}\p{N}]/u;
+const WHITESPACE_TOKEN = /^\s+$/;
+
+const emptyCounts = (): ChangeCounts => ({ added: 0, removed: 0, unchanged: 0 });
+
+const countSentences = (text: string) => tokenize(text, 'sentence').filter(s => s.trim()).length;
+
+/**
+ * Statistics of a diff. Counts come from each part's own text, so a word that
+ * a character-level diff cut in two counts on both sides of the cut. Unchanged
+ * text is counted as it reads in the modified text, which may differ from the
+ * original where the diff ignores case or whitespace. The edit
+ * distance is Levenshtein-style: an adjacent removal and addition count as
+ * substitutions, costing the longer of the two.
+ */
+export const computeDiffStats = (parts: DiffPart[]): DiffStats => {
+  const tokens = emptyCounts();
+  const words = emptyCounts();
+  const characters = emptyCounts();
+  let unchangedOriginal = 0; // Characters of unchanged text as it reads in the original
+  let edits = 0;
+  let pendingRemoved = 0; // Characters of the current run of changes
+  let pendingAdded = 0;
+
+  const closeRun = () => {
+    edits += Math.max(pendingRemoved, pendingAdded);
+    pendingRemoved = 0;
+    pendingAdded = 0;
+  };
+
+  for (const part of parts) {
+    const key: keyof ChangeCounts = part.added ? 'added' : part.removed ? 'removed' : 'unchanged';
+    const text = key === 'unchanged' ? part.newValue ?? part.value : part.value;
+    const length = tokenize(text, 'char').length;
+    characters[key] += length;
+    if (key === 'unchanged') unchangedOriginal += part.newValue === undefined ? length : tokenize(part.value, 'char').length;
+    for (const token of tokenize(text, 'word')) {
+      if (WHITESPACE_TOKEN.test(token)) continue;
+      tokens[key]++;
+      if (WORD_TOKEN.test(token)) words[key]++;
+    }
+
+    if (part.added) pendingAdded += length;
+    else if (part.removed) pendingRemoved += length;
+    else closeRun();
+  }
+  closeRun();
+
+  const originalLength = characters.removed + unchangedOriginal;
+  const modifiedLength = characters.added + characters.unchanged;
+  const original = parts.filter(p => !p.added).map(p => p.value).join('');
+  const modified = parts.filter(p => !p.removed).map(p => p.newValue ?? p.value).join('');
+
+  return {
+    tokens,
+    words,
+    characters,
+    similarity: originalLength + modifiedLength === 0 ? 1 : (unchangedOriginal + characters.unchanged) / (originalLength + modifiedLength),
+    editDistance: edits === 0 ? 0 : edits / Math.max(originalLength, modifiedLength),
+    sentences: { before: countSentences(original), after: countSentences(modified) },
+    rewrittenPercent: originalLength === 0 ? 0 : (100 * characters.removed) / originalLength,
+    readability: { before: computeReadability(original), after: computeReadability(modified) },
+  };
+};
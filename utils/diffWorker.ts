@@ -0,0 +1,20 @@
+import { runBlameJob, runDiffJob } from './diffJobs';
+import { BlameRequest, BlameResponse, DiffRequest, DiffResponse } from '../types';
+
+/**
+ * Dedicated worker that runs computeDiff off the main thread, along with the
+ * statistics of the result. Requests with a base get the three-way diff
+ * instead, and each edit's diff from the base; requests with texts get the
+ * blame of the last one.
+ * Every response echoes the request id so the caller can drop stale results.
+ */
+self.onmessage = (e: MessageEvent<DiffRequest | BlameRequest>) => {
+  const { id } = e.data;
+  let response: DiffResponse | BlameResponse;
+  try {
+    response = { id, ...('texts' in e.data ? runBlameJob(e.data) : runDiffJob(e.data)) };
+  } catch (err: any) {
+    response = { id, error: err?.message || 'Diff computation failed.' };
+  }
+  self.postMessage(response);
+};
@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import { DiffHunk } from '../types';
+import { computeDiff } from './diffEngine';
+import { buildHunks, splitLines } from './hunks';
+
+const lines = (count: number, from = 1) => Array.from({ length: count }, (_, i) => `Line ${from + i}\n`).join('');
+
+// Each hunk as its text, with collapsed hunks in brackets
+const outline = (hunks: DiffHunk[]) =>
+  hunks.map(h => {
+    const text = h.items.map(({ part }) => (part.added ? `+${part.value}` : part.removed ? `-${part.value}` : part.value)).join('');
+    return h.collapsed ? `[${h.hiddenCount}: ${text}]` : text;
+  });
+
+describe('buildHunks', () => {
+  it('keeps a diff without changes as one open hunk', () => {
+    const parts = computeDiff(lines(10), lines(10), { granularity: 'line' });
+    expect(buildHunks(parts, 1)).toEqual([{ items: [{ part: { value: lines(10) }, index: 0 }] }]);
+  });
+
+  it('trims the unchanged text around a change to the context', () => {
+    const parts = computeDiff(lines(10), lines(4) + 'Changed\n' + lines(5, 6), { granularity: 'line' });
+    expect(outline(buildHunks(parts, 1))).toEqual([
+      `[3: ${lines(3)}]`,
+      'Line 4\n-Line 5\n+Changed\nLine 6\n',
+      `[4: ${lines(4, 7)}]`,
+    ]);
+  });
+
+  it('merges changes whose gap is too short to collapse', () => {
+    const parts = computeDiff(lines(12), lines(2) + 'X\n' + lines(3, 4) + 'Y\n' + lines(5, 8), { granularity: 'line' });
+    expect(outline(buildHunks(parts, 1))).toEqual([
+      `${lines(2)}-Line 3\n+X\n${lines(3, 4)}-Line 7\n+Y\nLine 8\n`,
+      `[4: ${lines(4, 9)}]`,
+    ]);
+  });
+
+  it('collapses the gap between changes that are far enough apart', () => {
+    const parts = computeDiff(lines(12), lines(2) + 'X\n' + lines(5, 4) + 'Y\n' + lines(3, 10), { granularity: 'line' });
+    expect(outline(buildHunks(parts, 1))).toEqual([
+      `${lines(2)}-Line 3\n+X\nLine 4\n`,
+      `[3: ${lines(3, 5)}]`,
+      `Line 8\n-Line 9\n+Y\n${lines(3, 10)}`,
+    ]);
+  });
+
+  it('collapses only after a change at the start', () => {
+    const parts = computeDiff(lines(10), 'Changed\n' + lines(9, 2), { granularity: 'line' });
+    expect(outline(buildHunks(parts, 1))).toEqual(['-Line 1\n+Changed\nLine 2\n', `[8: ${lines(8, 3)}]`]);
+  });
+
+  it('collapses only before a change at the end', () => {
+    const parts = computeDiff(lines(10), lines(9) + 'Changed\n', { granularity: 'line' });
+    expect(outline(buildHunks(parts, 1))).toEqual([`[8: ${lines(8)}]`, 'Line 9\n-Line 10\n+Changed\n']);
+  });
+
+  it('slices both sides of text equal only under normalization', () => {
+    const parts = computeDiff('Hello World\n' + lines(8), 'hello   world\n' + lines(7) + 'Z\n', {
+      granularity: 'line',
+      normalize: { ignoreCase: true, ignoreWhitespace: true },
+    });
+    const [collapsed, change] = buildHunks(parts, 1);
+    expect(collapsed.items[0].part).toEqual({ value: 'Hello World\n' + lines(6), newValue: 'hello   world\n' + lines(6) });
+    expect(change.items[0].part).toEqual({ value: 'Line 7\n' });
+  });
+});
+
+describe('splitLines', () => {
+  it('breaks unchanged text at line breaks but keeps changes whole', () => {
+    expect(splitLines([
+      { part: { value: 'a\nb\n' }, index: 0 },
+      { part: { value: 'c\nd', added: true }, index: 1 },
+    ])).toEqual([
+      [{ part: { value: 'a' }, index: 0 }],
+      [{ part: { value: 'b' }, index: 0 }],
+      [{ part: { value: 'c\nd', added: true }, index: 1 }],
+    ]);
+  });
+});
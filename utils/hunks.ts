@@ -0,0 +1,105 @@
+import { DiffPart, DiffHunk, HunkItem, HunkContextUnit } from '../types';
+import { tokenize } from './tokenizer';
+import { sliceUnchanged } from './partSlice';
+
+// Shorter unchanged stretches are shown rather than collapsed
+const MIN_COLLAPSED_UNITS = 3;
+
+// Whether a unit boundary falls right after this text
+const endsUnit = (text: string, unit: HunkContextUnit) =>
+  unit === 'line' ? text.endsWith('\n') : /\s$/.test(text);
+
+// Character offset where each unit starts, followed by the end of the text
+const unitOffsets = (units: string[]) => {
+  const offsets = [0];
+  for (const unit of units) offsets.push(offsets[offsets.length - 1] + unit.length);
+  return offsets;
+};
+
+/**
+ * Groups a diff into hunks: change regions with `context` lines or sentences
+ * of unchanged text around them, separated by collapsed hunks holding the
+ * unchanged text in between. Context is counted in whole units, plus the
+ * partial unit that a change starts or ends in.
+ */
+export const buildHunks = (parts: DiffPart[], context: number, unit: HunkContextUnit = 'line'): DiffHunk[] => {
+  const all = parts.map((part, index) => ({ part, index }));
+  const firstChange = parts.findIndex(p => p.added || p.removed);
+  if (firstChange === -1) return [{ items: all }];
+  let lastChange = parts.length - 1;
+  while (!parts[lastChange].added && !parts[lastChange].removed) lastChange--;
+
+  const hunks: DiffHunk[] = [];
+  let current: HunkItem[] = [];
+  let originalSoFar = '';
+
+  parts.forEach((part, index) => {
+    if (part.added || part.removed) {
+      current.push({ part, index });
+      if (part.removed) originalSoFar = part.value;
+      return;
+    }
+
+    const units = tokenize(part.value, unit);
+    const newUnits = part.newValue !== undefined ? tokenize(part.newValue, unit) : null;
+    const head = index < firstChange ? 0 : context + (originalSoFar && !endsUnit(originalSoFar, unit) ? 1 : 0);
+    const tail = index > lastChange ? 0 : context + (endsUnit(part.value, unit) ? 0 : 1);
+    originalSoFar = part.value;
+
+    // Unchanged text whose two sides split differently cannot be sliced in step
+    if (newUnits && newUnits.length !== units.length) {
+      current.push({ part, index });
+      return;
+    }
+    if (units.length - head - tail < MIN_COLLAPSED_UNITS) {
+      current.push({ part, index });
+      return;
+    }
+
+    // Slices whole units, which line up on both sides
+    const offsets = unitOffsets(units);
+    const newOffsets = newUnits ? unitOffsets(newUnits) : offsets;
+    const slice = (start: number, end: number): DiffPart =>
+      sliceUnchanged(part, [offsets[start], offsets[end]], [newOffsets[start], newOffsets[end]]);
+
+    if (head > 0) current.push({ part: slice(0, head), index });
+    if (current.length > 0) hunks.push({ items: current });
+    hunks.push({
+      items: [{ part: slice(head, units.length - tail), index }],
+      collapsed: true,
+      hiddenCount: units.length - head - tail
+    });
+    current = tail > 0 ? [{ part: slice(units.length - tail, units.length), index }] : [];
+  });
+
+  if (current.length > 0) hunks.push({ items: current });
+  return hunks;
+};
+
+/**
+ * Breaks hunk items into lines at the line breaks of unchanged text, which
+ * read the same in every view. Changed parts are never split, so a change
+ * spanning several lines stays whole on the line it starts on.
+ */
+export const splitLines = (items: HunkItem[]): HunkItem[][] => {
+  const lines: HunkItem[][] = [];
+  let current: HunkItem[] = [];
+
+  for (const item of items) {
+    const { part, index } = item;
+    if (part.added || part.removed || (part.newValue !== undefined && part.newValue !== part.value)) {
+      current.push(item);
+      continue;
+    }
+    part.value.split('\n').forEach((text, i) => {
+      if (i > 0) {
+        lines.push(current);
+        current = [];
+      }
+      if (text) current.push({ part: { value: text }, index });
+    });
+  }
+
+  if (current.length > 0) lines.push(current);
+  return lines;
+};
@@ -0,0 +1,103 @@
+import { IgnoreRule } from '../types';
+
+interface RuleMatch {
+  start: number;
+  end: number;
+  ruleId: string;
+}
+
+export const IGNORE_RULE_PRESETS: Omit<IgnoreRule, 'id'>[] = [
+  { name: 'ISO Date', pattern: String.raw`\d{4}-\d{2}-\d{2}` },
+  { name: 'Date (dd/mm/yyyy)', pattern: String.raw`\d{1,2}[/.]\d{1,2}[/.]\d{2,4}` },
+  { name: 'Time', pattern: String.raw`\d{1,2}:\d{2}(?::\d{2})?(?:\.\d+)?(?:\s?[AaPp][Mm])?` },
+  { name: 'ISO Timestamp', pattern: String.raw`\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}(?::\d{2})?(?:\.\d+)?(?:Z|[+-]\d{2}:?\d{2})?` },
+  { name: 'Version Number', pattern: String.raw`v?\d+\.\d+(?:\.\d+)*(?:-[\w.]+)?` },
+  { name: 'Ticket ID', pattern: String.raw`[A-Z][A-Z0-9]+-\d+` },
+  { name: 'UUID', pattern: String.raw`[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}`, flags: 'i' },
+];
+
+/**
+ * Compiles a rule into a global RegExp, or returns the syntax error message.
+ */
+export const compileIgnoreRule = (rule: Pick<IgnoreRule, 'pattern' | 'flags'>): RegExp | string => {
+  if (!rule.pattern) return 'Pattern is empty.';
+  try {
+    const flags = (rule.flags || '').replace(/[gy]/g, '');
+    return new RegExp(rule.pattern, flags + 'g');
+  } catch (e: any) {
+    return e.message || 'Invalid regular expression.';
+  }
+};
+
+/**
+ * Finds all rule matches in the text. Where matches overlap, the earliest
+ * wins, then the longest.
+ */
+const findRuleMatches = (text: string, rules: IgnoreRule[]): RuleMatch[] => {
+  const candidates: RuleMatch[] = [];
+  for (const rule of rules) {
+    const regex = compileIgnoreRule(rule);
+    if (typeof regex === 'string') continue; // Invalid rules are flagged in the rule editor
+    for (const match of text.matchAll(regex)) {
+      if (!match[0]) continue; // Zero-length matches cannot be masked
+      candidates.push({ start: match.index!, end: match.index! + match[0].length, ruleId: rule.id });
+    }
+  }
+
+  candidates.sort((a, b) => a.start - b.start || b.end - a.end);
+  const matches: RuleMatch[] = [];
+  for (const candidate of candidates) {
+    const last = matches[matches.length - 1];
+    if (!last || candidate.start >= last.end) matches.push(candidate);
+  }
+  return matches;
+};
+
+/**
+ * Masks ignore-rule matches out of the comparison.
+ * Tokens overlapping the same match are merged into one, and each match is
+ * replaced in the token's key by a placeholder unique to its rule, so two
+ * texts that differ only inside matches of the same rule compare as equal.
+ */
+export const applyIgnoreRules = (
+  text: string,
+  tokens: string[],
+  rules: IgnoreRule[] = []
+): { tokens: string[]; keys: string[] } => {
+  const matches = rules.length > 0 ? findRuleMatches(text, rules) : [];
+  if (matches.length === 0) return { tokens, keys: tokens };
+
+  const mergedTokens: string[] = [];
+  const keys: string[] = [];
+  let matchIndex = 0;
+  let tokenStart = 0;
+  let i = 0;
+
+  while (i < tokens.length) {
+    // Extend the token until it no longer ends inside a match
+    let end = tokenStart + tokens[i].length;
+    let j = i + 1;
+    while (matchIndex < matches.length && matches[matchIndex].end <= tokenStart) matchIndex++;
+    let m = matchIndex;
+    while (m < matches.length && matches[m].start < end) {
+      while (end < matches[m].end && j < tokens.length) end += tokens[j++].length;
+      m++;
+    }
+
+    // Build the key with every match inside [tokenStart, end) masked
+    let key = '';
+    let cursor = tokenStart;
+    for (let k = matchIndex; k < m; k++) {
+      key += text.slice(cursor, matches[k].start) + `\u0000${matches[k].ruleId}\u0000`;
+      cursor = matches[k].end;
+    }
+    key += text.slice(cursor, end);
+
+    mergedTokens.push(text.slice(tokenStart, end));
+    keys.push(key);
+    tokenStart = end;
+    i = j;
+  }
+
+  return { tokens: mergedTokens, keys };
+};
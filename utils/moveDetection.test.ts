@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import { DiffPart } from '../types';
+import { computeDiff } from './diffEngine';
+import { detectMoves } from './moveDetection';
+import { sideText } from './partSlice';
+
+const originalOf = (parts: DiffPart[]) => parts.filter(p => !p.added).map(p => sideText(p, 'original')).join('');
+const modifiedOf = (parts: DiffPart[]) => parts.filter(p => !p.removed).map(p => sideText(p, 'modified')).join('');
+
+const MOVED = 'The moved sentence has plenty of words in it.';
+const STAYS = ' This middle sentence is even longer than the moved one, surely.';
+
+describe('detectMoves', () => {
+  it('marks a sentence moved past a longer one', () => {
+    const oldText = `Intro. ${MOVED}${STAYS} End.`;
+    const newText = `Intro.${STAYS} ${MOVED} End.`;
+    const parts = computeDiff(oldText, newText, { detectMoves: true, cleanup: 'semantic' });
+
+    const moved = parts.filter(p => p.moved);
+    expect(moved).toEqual([
+      { value: MOVED, removed: true, moved: true, moveId: 1 },
+      { value: MOVED, added: true, moved: true, moveId: 1 },
+    ]);
+    expect(originalOf(parts)).toBe(oldText);
+    expect(modifiedOf(parts)).toBe(newText);
+  });
+
+  it('leaves a block below the minimum length as a plain edit', () => {
+    const parts = computeDiff('Tiny move. Stays. ', 'Stays. Tiny move. ', { detectMoves: true, cleanup: 'semantic' });
+    expect(parts.some(p => p.moved)).toBe(false);
+  });
+
+  it('follows the minimum move length option', () => {
+    const oldText = `Intro. ${MOVED}${STAYS} End.`;
+    const newText = `Intro.${STAYS} ${MOVED} End.`;
+    const parts = computeDiff(oldText, newText, { detectMoves: true, cleanup: 'semantic', minMoveLength: MOVED.length + 1 });
+    expect(parts.some(p => p.moved)).toBe(false);
+  });
+
+  it('links each source to its own destination', () => {
+    const first = 'First moved block carries enough words to count.';
+    const second = 'Second moved block is also long enough to count.';
+    const parts = detectMoves([
+      { value: first, removed: true },
+      { value: ' anchor ' },
+      { value: second, removed: true },
+      { value: ' more anchor ' },
+      { value: second, added: true },
+      { value: ' tail ' },
+      { value: first, added: true },
+    ]);
+
+    const ids = new Map<string, number[]>();
+    parts.filter(p => p.moved).forEach(p => ids.set(p.value, [...(ids.get(p.value) ?? []), p.moveId!]));
+    expect(ids.get(first)).toHaveLength(2);
+    expect(ids.get(second)).toHaveLength(2);
+    expect(new Set(ids.get(first)).size).toBe(1);
+    expect(new Set(ids.get(second)).size).toBe(1);
+    expect(ids.get(first)![0]).not.toBe(ids.get(second)![0]);
+  });
+
+  it('splits a move out of a larger edit', () => {
+    const parts = detectMoves([
+      { value: `Gone. ${MOVED}`, removed: true },
+      { value: ' anchor ' },
+      { value: `${MOVED} New.`, added: true },
+    ]);
+    expect(parts).toEqual([
+      { value: 'Gone. ', removed: true },
+      { value: MOVED, removed: true, moved: true, moveId: 1 },
+      { value: ' anchor ' },
+      { value: MOVED, added: true, moved: true, moveId: 1 },
+      { value: ' New.', added: true },
+    ]);
+  });
+});
@@ -0,0 +1,179 @@
+import { DiffPart } from '../types';
+import { tokenize } from './tokenizer';
+
+export const DEFAULT_MIN_MOVE_LENGTH = 32;
+
+// Matches are seeded on runs of this many word tokens
+const SEED_TOKENS = 3;
+// Bounds the work per seed on highly repetitive text
+const MAX_SEED_CANDIDATES = 64;
+
+interface TokenizedPart {
+  tokens: string[];
+  offsets: number[]; // Character offset of each token, plus the total length
+  used: Uint8Array;
+}
+
+interface Tile {
+  source: number; // Index of the removed part
+  sourceStart: number;
+  sourceEnd: number;
+  destination: number; // Index of the added part
+  destinationStart: number;
+  destinationEnd: number;
+}
+
+const WHITESPACE_TOKEN = /^\s+$/;
+
+const tokenizePart = (value: string): TokenizedPart => {
+  const tokens = tokenize(value, 'word');
+  const offsets = [0];
+  for (const token of tokens) offsets.push(offsets[offsets.length - 1] + token.length);
+  return { tokens, offsets, used: new Uint8Array(tokens.length) };
+};
+
+const seedKey = (tokens: string[], pos: number) => tokens.slice(pos, pos + SEED_TOKENS).join('\u0000');
+
+/**
+ * Greedily tiles removed parts with the longest runs of identical tokens
+ * found in added parts, discarding runs shorter than minLength characters
+ * (ignoring surrounding whitespace).
+ */
+const findTiles = (parts: DiffPart[], tokenized: (TokenizedPart | null)[], minLength: number): Tile[] => {
+  const seeds = new Map<string, { part: number; pos: number }[]>();
+  parts.forEach((part, j) => {
+    const t = tokenized[j];
+    if (!part.added || !t) return;
+    for (let q = 0; q + SEED_TOKENS <= t.tokens.length; q++) {
+      const key = seedKey(t.tokens, q);
+      const list = seeds.get(key);
+      if (!list) seeds.set(key, [{ part: j, pos: q }]);
+      else if (list.length < MAX_SEED_CANDIDATES) list.push({ part: j, pos: q });
+    }
+  });
+
+  const tiles: Tile[] = [];
+  parts.forEach((part, i) => {
+    const src = tokenized[i];
+    if (!part.removed || !src) return;
+
+    let p = 0;
+    while (p + SEED_TOKENS <= src.tokens.length) {
+      let best: { part: number; pos: number; length: number } | null = null;
+      for (const candidate of seeds.get(seedKey(src.tokens, p)) || []) {
+        const dst = tokenized[candidate.part]!;
+        let length = 0;
+        while (
+          p + length < src.tokens.length &&
+          candidate.pos + length < dst.tokens.length &&
+          !src.used[p + length] &&
+          !dst.used[candidate.pos + length] &&
+          src.tokens[p + length] === dst.tokens[candidate.pos + length]
+        ) {
+          length++;
+        }
+        if (length >= SEED_TOKENS && (!best || length > best.length)) {
+          best = { ...candidate, length };
+        }
+      }
+
+      if (!best) {
+        p++;
+        continue;
+      }
+
+      // Drop whitespace at the edges of the run
+      const dst = tokenized[best.part]!;
+      let lead = 0;
+      let trail = 0;
+      while (lead < best.length && WHITESPACE_TOKEN.test(src.tokens[p + lead])) lead++;
+      while (trail < best.length - lead && WHITESPACE_TOKEN.test(src.tokens[p + best.length - 1 - trail])) trail++;
+      const sourceStart = src.offsets[p + lead];
+      const sourceEnd = src.offsets[p + best.length - trail];
+
+      if (sourceEnd - sourceStart >= minLength) {
+        src.used.fill(1, p, p + best.length);
+        dst.used.fill(1, best.pos, best.pos + best.length);
+        tiles.push({
+          source: i,
+          sourceStart,
+          sourceEnd,
+          destination: best.part,
+          destinationStart: dst.offsets[best.pos + lead],
+          destinationEnd: dst.offsets[best.pos + best.length - trail],
+        });
+        p += best.length;
+      } else {
+        p++;
+      }
+    }
+  });
+
+  return tiles;
+};
+
+/**
+ * Within a replacement (a removal directly next to an addition), shared text
+ * that keeps its order is text the cleanup pass absorbed in place, not a
+ * move. Only pairs whose shared runs cross over each other were reordered.
+ */
+const dropInPlaceTiles = (tiles: Tile[]): Tile[] => {
+  const byPair = new Map<string, Tile[]>();
+  for (const tile of tiles) {
+    if (Math.abs(tile.source - tile.destination) !== 1) continue;
+    const key = `${tile.source}:${tile.destination}`;
+    byPair.set(key, [...(byPair.get(key) || []), tile]);
+  }
+
+  const inPlace = new Set<Tile>();
+  for (const pairTiles of byPair.values()) {
+    const ordered = [...pairTiles].sort((a, b) => a.sourceStart - b.sourceStart);
+    const crosses = ordered.some((tile, k) => k > 0 && tile.destinationStart < ordered[k - 1].destinationStart);
+    if (!crosses) pairTiles.forEach(tile => inPlace.add(tile));
+  }
+  return tiles.filter(tile => !inPlace.has(tile));
+};
+
+/**
+ * Finds blocks that were removed in one place and added in another, and marks
+ * the removed (source) and added (destination) text with a shared moveId.
+ * Moves may be embedded in larger edits, which are split around them.
+ */
+export const detectMoves = (parts: DiffPart[], minLength: number = DEFAULT_MIN_MOVE_LENGTH): DiffPart[] => {
+  const tokenized = parts.map(p =>
+    (p.added || p.removed) && !p.moved && p.value.trim().length >= minLength ? tokenizePart(p.value) : null
+  );
+  const tiles = dropInPlaceTiles(findTiles(parts, tokenized, minLength));
+  if (tiles.length === 0) return parts;
+
+  // Character ranges to split out of each part, tagged with their moveId
+  const ranges = new Map<number, { start: number; end: number; moveId: number }[]>();
+  const addRange = (index: number, start: number, end: number, moveId: number) => {
+    ranges.set(index, [...(ranges.get(index) || []), { start, end, moveId }]);
+  };
+  tiles
+    .sort((a, b) => a.source - b.source || a.sourceStart - b.sourceStart)
+    .forEach((tile, k) => {
+      addRange(tile.source, tile.sourceStart, tile.sourceEnd, k + 1);
+      addRange(tile.destination, tile.destinationStart, tile.destinationEnd, k + 1);
+    });
+
+  const result: DiffPart[] = [];
+  parts.forEach((part, index) => {
+    const partRanges = ranges.get(index);
+    if (!partRanges) {
+      result.push(part);
+      return;
+    }
+    const { value, ...flags } = part;
+    let cursor = 0;
+    for (const { start, end, moveId } of partRanges.sort((a, b) => a.start - b.start)) {
+      if (start > cursor) result.push({ ...flags, value: value.slice(cursor, start) });
+      result.push({ ...flags, value: value.slice(start, end), moved: true, moveId });
+      cursor = end;
+    }
+    if (cursor < value.length) result.push({ ...flags, value: value.slice(cursor) });
+  });
+
+  return result;
+};
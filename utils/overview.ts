@@ -0,0 +1,40 @@
+import { DiffPart, OverviewMark, OverviewMarkKind } from '../types';
+import { DiffSide, sideText } from './partSlice';
+
+export const markKind = (part: DiffPart): OverviewMarkKind | null =>
+  part.moved ? 'moved' : part.removed ? 'removed' : part.added ? 'added' : null;
+
+/**
+ * Merges marks of the same kind that are less than `minGap` apart, so a ruler
+ * a few hundred pixels tall is not asked to draw thousands of slivers.
+ * Marks must be sorted by start.
+ */
+export const mergeMarks = (marks: OverviewMark[], minGap: number): OverviewMark[] => {
+  const merged: OverviewMark[] = [];
+  const lastOfKind = new Map<OverviewMarkKind, OverviewMark>();
+  for (const mark of marks) {
+    const last = lastOfKind.get(mark.kind);
+    if (last && mark.start - last.end < minGap) {
+      last.end = Math.max(last.end, mark.end);
+    } else {
+      const copy = { ...mark };
+      merged.push(copy);
+      lastOfKind.set(mark.kind, copy);
+    }
+  }
+  return merged;
+};
+
+// Character ranges of the changes on one side of a diff
+export const changeRanges = (parts: DiffPart[], side: DiffSide): OverviewMark[] => {
+  const marks: OverviewMark[] = [];
+  let offset = 0;
+  for (const part of parts) {
+    if (side === 'original' ? part.added : part.removed) continue;
+    const length = sideText(part, side).length;
+    const kind = markKind(part);
+    if (kind && length > 0) marks.push({ kind, start: offset, end: offset + length });
+    offset += length;
+  }
+  return marks;
+};
@@ -0,0 +1,54 @@
+import { DiffPart } from '../types';
+import { splitReplacement, ReplacementSegment } from './replacements';
+
+export type DiffSide = 'original' | 'modified';
+
+// Text of a part as it reads on one side
+export const sideText = (part: DiffPart, side: DiffSide) =>
+  side === 'original' ? part.value : part.newValue ?? part.value;
+
+/**
+ * Characters [start, end) of a part on one side. A replacement keeps an inner
+ * diff covering just the slice, so its changed characters stay emphasized.
+ * Callers slicing one part many times can pass its replacement segments.
+ */
+export const slicePart = (
+  part: DiffPart,
+  side: DiffSide,
+  start: number,
+  end: number,
+  segments: ReplacementSegment[] | null = part.inner ? splitReplacement(part) : null
+): DiffPart => {
+  if (!part.added && !part.removed) return { value: sideText(part, side).slice(start, end) };
+  const { inner: _, ...flags } = part;
+  const value = part.value.slice(start, end);
+  if (!segments) return { ...flags, value };
+
+  const inner: DiffPart[] = [];
+  let offset = 0;
+  for (const segment of segments) {
+    const from = Math.max(start, offset);
+    const to = Math.min(end, offset + segment.value.length);
+    if (from < to) {
+      const text = segment.value.slice(from - offset, to - offset);
+      inner.push(segment.changed ? { value: text, [part.removed ? 'removed' : 'added']: true } : { value: text });
+    }
+    offset += segment.value.length;
+  }
+  return { ...flags, value, inner };
+};
+
+/**
+ * Slice of an unchanged part given by its range on each side, which differ
+ * where the sides are equal only under normalization. The slice keeps its
+ * modified text only where that reads differently.
+ */
+export const sliceUnchanged = (
+  part: DiffPart,
+  original: [number, number],
+  modified: [number, number] = original
+): DiffPart => {
+  const value = sideText(part, 'original').slice(...original);
+  const newValue = sideText(part, 'modified').slice(...modified);
+  return newValue === value ? { value } : { value, newValue };
+};
@@ -0,0 +1,149 @@
+import { ReadabilityMetrics } from '../types';
+import { tokenize } from './tokenizer';
+
+const CJK_CHAR = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}]/u;
+const ALPHABETIC_WORD = /^(?:(?![\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}])[\p{L}\p{M}\p{N}'’-])*\p{L}/u;
+const LATIN_WORD = /^[a-z'’-]*[a-z]/i;
+
+// Function words; everything else counts as a content word
+const ENGLISH_FUNCTION_WORDS = new Set(`
+  a an the this that these those some any each every no all both either neither
+  i me my mine we us our ours you your yours he him his she her hers it its they them their theirs
+  myself yourself himself herself itself ourselves themselves who whom whose which what
+  am is are was were be been being have has had having do does did doing
+  will would shall should can could may might must ought
+  and or but nor so yet if then than because as while although though unless whether
+  of in on at by for with about against between into through during before after above below
+  to from up down out off over under again further once here there when where why how
+  not only just very too also more most such own same other
+`.trim().split(/\s+/));
+
+// Han and kana characters that mainly carry grammar: particles, aspect markers, pronouns
+const CJK_FUNCTION_CHARACTERS = new Set(Array.from(
+  '的地得了着过是在和与及或而且并也都就还又才把被让给对从向于以之其这那哪些个我你他她它们吗呢吧啊呀嘛'
+  + 'のにはをがでともへやかなよねだすますた'
+));
+
+// A form of "to be" or "to get", then a past participle a couple of words later at most
+const ENGLISH_PASSIVE = /\b(?:am|is|are|was|were|be|been|being|get|gets|got|gotten)\s+(?:\w+ly\s+|not\s+){0,2}(?:\w+ed|\w+en|made|done|built|bought|brought|caught|found|given|held|kept|known|left|lost|meant|paid|put|read|said|seen|sent|set|shown|sold|spent|taken|taught|told|thought|understood|won|written)\b/i;
+// 被 and its relatives mark the passive in Chinese
+const CHINESE_PASSIVE = /被|遭到|遭受|受到/;
+
+/**
+ * Estimates English syllables from vowel groups, discounting a silent final e
+ * and the "-ed"/"-es" endings that usually add none.
+ */
+const countSyllables = (word: string) => {
+  const letters = word.toLowerCase().replace(/[^a-z]/g, '');
+  if (letters.length <= 3) return 1;
+  const trimmed = letters.replace(/(?:[^laeiouy]es|[^laeiouy]ed|[^laeiouy]e)$/, '').replace(/^y/, '');
+  return Math.max(1, (trimmed.match(/[aeiouy]{1,2}/g) || []).length);
+};
+
+/**
+ * Readability metrics of a text. Flesch reading ease is only defined for
+ * English-like text, so it covers the Latin-script words and the sentences
+ * holding them. Sentence length is measured per script: words per sentence
+ * for alphabetic scripts, characters per sentence for Chinese and Japanese.
+ * Passive voice and lexical density are heuristics, good for comparing two
+ * versions of a text rather than as absolute scores.
+ */
+export const computeReadability = (text: string): ReadabilityMetrics => {
+  let sentences = 0;
+  let words = 0;
+  let cjkCharacters = 0;
+  let latinWords = 0;
+  let syllables = 0;
+  let contentUnits = 0;
+  let passiveSentences = 0;
+  let sentencesWithWords = 0;
+  let sentencesWithCjk = 0;
+  let sentencesWithLatin = 0;
+
+  for (const sentence of tokenize(text, 'sentence')) {
+    let sentenceWords = 0;
+    let sentenceCjk = 0;
+    let sentenceLatin = 0;
+    for (const token of tokenize(sentence, 'word')) {
+      if (CJK_CHAR.test(token)) {
+        sentenceCjk++;
+        if (!CJK_FUNCTION_CHARACTERS.has(token)) contentUnits++;
+      } else if (ALPHABETIC_WORD.test(token)) {
+        sentenceWords++;
+        if (!ENGLISH_FUNCTION_WORDS.has(token.toLowerCase())) contentUnits++;
+        if (LATIN_WORD.test(token)) {
+          sentenceLatin++;
+          syllables += countSyllables(token);
+        }
+      }
+    }
+    if (sentenceWords + sentenceCjk === 0) continue;
+
+    sentences++;
+    words += sentenceWords;
+    cjkCharacters += sentenceCjk;
+    latinWords += sentenceLatin;
+    if (sentenceWords) sentencesWithWords++;
+    if (sentenceCjk) sentencesWithCjk++;
+    if (sentenceLatin) sentencesWithLatin++;
+    if (ENGLISH_PASSIVE.test(sentence) || CHINESE_PASSIVE.test(sentence)) passiveSentences++;
+  }
+
+  const units = words + cjkCharacters;
+  return {
+    sentences,
+    words,
+    cjkCharacters,
+    fleschReadingEase: latinWords === 0
+      ? null
+      : 206.835 - 1.015 * (latinWords / sentencesWithLatin) - 84.6 * (syllables / latinWords),
+    wordsPerSentence: sentencesWithWords === 0 ? null : words / sentencesWithWords,
+    cjkCharactersPerSentence: sentencesWithCjk === 0 ? null : cjkCharacters / sentencesWithCjk,
+    passiveVoicePercent: sentences === 0 ? null : (100 * passiveSentences) / sentences,
+    lexicalDensity: units === 0 ? null : contentUnits / units,
+  };
+};
+
+export type ReadabilityField = 'fleschReadingEase' | 'wordsPerSentence' | 'cjkCharactersPerSentence' | 'passiveVoicePercent' | 'lexicalDensity';
+
+export const READABILITY_FIELDS: { id: ReadabilityField; label: string; description: string; format: (value: number) => string }[] = [
+  { id: 'fleschReadingEase', label: 'Flesch Reading Ease', description: 'Higher is easier to read; 60-70 is plain English', format: v => v.toFixed(1) },
+  { id: 'wordsPerSentence', label: 'Words / Sentence', description: 'Average sentence length in words', format: v => v.toFixed(1) },
+  { id: 'cjkCharactersPerSentence', label: 'CJK Chars / Sentence', description: 'Average sentence length in Chinese or Japanese characters', format: v => v.toFixed(1) },
+  { id: 'passiveVoicePercent', label: 'Passive Voice', description: 'Share of sentences with a passive construction (estimate)', format: v => `${Math.round(v)}%` },
+  { id: 'lexicalDensity', label: 'Lexical Density', description: 'Share of content words as opposed to function words', format: v => `${Math.round(v * 100)}%` },
+];
+
+// Signed difference, in the field's own units
+export const formatReadabilityDelta = (field: ReadabilityField, before: number, after: number) => {
+  const { format } = READABILITY_FIELDS.find(f => f.id === field)!;
+  const delta = after - before;
+  const text = format(Math.abs(delta));
+  return delta > 0 ? `+${text}` : delta < 0 ? `−${text}` : `±${text}`;
+};
+
+/**
+ * Plain-text table of the metrics of several versions of a text, for the AI
+ * prompt. Each version after the first is followed by its change from the
+ * previous one, or from the first when `compareTo` is 'first'. Metrics none
+ * of the versions have are left out.
+ */
+export const formatReadabilityReport = (
+  versions: { label: string; metrics: ReadabilityMetrics }[],
+  compareTo: 'previous' | 'first' = 'previous'
+) => {
+  const lines = READABILITY_FIELDS
+    .filter(field => versions.some(v => v.metrics[field.id] !== null))
+    .map(field => {
+      const cells = versions.map((version, i) => {
+        const value = version.metrics[field.id];
+        if (value === null) return `${version.label}: n/a`;
+        const previous = i > 0 ? versions[compareTo === 'first' ? 0 : i - 1].metrics[field.id] : null;
+        const delta = previous === null ? '' : ` (${formatReadabilityDelta(field.id, previous, value)})`;
+        return `${version.label}: ${field.format(value)}${delta}`;
+      });
+      return `- ${field.label} [${field.description}]: ${cells.join(' | ')}`;
+    });
+  const counts = versions.map(v => `${v.label}: ${v.metrics.sentences}`).join(' | ');
+  return [`- Sentences: ${counts}`, ...lines].join('\n');
+};
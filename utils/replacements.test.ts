@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { computeDiff } from './diffEngine';
+import { splitReplacement } from './replacements';
+
+describe('pairReplacements', () => {
+  it('gives a close replacement an inner character diff', () => {
+    const parts = computeDiff('I will recieve it.', 'I will receive it.');
+    const removed = parts.find(p => p.removed)!;
+    const added = parts.find(p => p.added)!;
+    expect(removed.value).toBe('recieve');
+    expect(added.value).toBe('receive');
+    expect(removed.inner).toBe(added.inner);
+    expect(removed.inner).toEqual([
+      { value: 'rec' },
+      { value: 'ie', removed: true },
+      { value: 'ei', added: true },
+      { value: 've' },
+    ]);
+  });
+
+  it('keeps no inner diff for replacements with little in common', () => {
+    const parts = computeDiff('The cat sat.', 'The dog house sat.');
+    expect(parts.filter(p => p.added || p.removed).every(p => !p.inner)).toBe(true);
+  });
+
+  it('skips the inner diff at character granularity', () => {
+    const parts = computeDiff('I will recieve it.', 'I will receive it.', { granularity: 'char' });
+    expect(parts.every(p => !p.inner)).toBe(true);
+  });
+});
+
+describe('splitReplacement', () => {
+  it('splits each side into unchanged and changed runs', () => {
+    const parts = computeDiff('I will recieve it.', 'I will receive it.');
+    expect(splitReplacement(parts.find(p => p.removed)!)).toEqual([
+      { value: 'rec', changed: false },
+      { value: 'ie', changed: true },
+      { value: 've', changed: false },
+    ]);
+    expect(splitReplacement(parts.find(p => p.added)!)).toEqual([
+      { value: 'rec', changed: false },
+      { value: 'ei', changed: true },
+      { value: 've', changed: false },
+    ]);
+  });
+
+  it('treats a part without an inner diff as wholly changed', () => {
+    expect(splitReplacement({ value: 'cat', removed: true })).toEqual([{ value: 'cat', changed: true }]);
+  });
+});
@@ -0,0 +1,62 @@
+import { DiffPart } from '../types';
+
+// Longer replacements are left as a plain removal and addition
+const MAX_REPLACEMENT_LENGTH = 2000;
+// Share of characters both sides must have in common for the inner diff to be worth showing
+const MIN_SIMILARITY = 0.5;
+
+export interface ReplacementSegment {
+  value: string;
+  changed: boolean;
+}
+
+const isPairable = (part: DiffPart | undefined) =>
+  !!part && !part.moved && part.value.length > 0 && part.value.length <= MAX_REPLACEMENT_LENGTH;
+
+/**
+ * Groups each removal directly next to an addition into a replacement: both
+ * parts get the same `inner` character diff (removed text -> added text), so
+ * "recieve" -> "receive" can be shown as a single swapped letter. Pairs that
+ * have too little in common keep no inner diff.
+ */
+export const pairReplacements = (
+  parts: DiffPart[],
+  diffChars: (removed: string, added: string) => DiffPart[]
+): DiffPart[] => {
+  const result = [...parts];
+  for (let i = 0; i + 1 < result.length; i++) {
+    const first = result[i];
+    const second = result[i + 1];
+    if (!isPairable(first) || !isPairable(second)) continue;
+    if (!((first.removed && second.added) || (first.added && second.removed))) continue;
+
+    const removed = first.removed ? first : second;
+    const added = first.added ? first : second;
+    const inner = diffChars(removed.value, added.value);
+    const common = inner.reduce((sum, part) => (part.added || part.removed ? sum : sum + part.value.length), 0);
+    if ((2 * common) / (removed.value.length + added.value.length) < MIN_SIMILARITY) continue;
+
+    result[i] = { ...first, inner };
+    result[i + 1] = { ...second, inner };
+    i++;
+  }
+  return result;
+};
+
+/**
+ * Splits one side of a replacement into runs of unchanged and changed text,
+ * using the modified-side text for the added part.
+ */
+export const splitReplacement = (part: DiffPart): ReplacementSegment[] => {
+  if (!part.inner) return [{ value: part.value, changed: true }];
+  const segments: ReplacementSegment[] = [];
+  for (const inner of part.inner) {
+    if (part.removed ? inner.added : inner.removed) continue;
+    const value = part.added ? inner.newValue ?? inner.value : inner.value;
+    const changed = !!(inner.added || inner.removed);
+    const last = segments[segments.length - 1];
+    if (last && last.changed === changed) last.value += value;
+    else segments.push({ value, changed });
+  }
+  return segments;
+};
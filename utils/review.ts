@@ -0,0 +1,96 @@
+import { DiffPart, ReviewChange, ChangeDecision, ChangeLocation } from '../types';
+
+// Characters of preceding text given with each change
+const CONTEXT_LENGTH = 40;
+
+export interface ChangeIndex {
+  changes: ReviewChange[];
+  changeOfPart: (number | null)[]; // Change each part belongs to; null for unchanged parts
+  lastPartOfChange: number[]; // Part after which each change's controls are shown
+  locations: ChangeLocation[];
+}
+
+/**
+ * Groups diff parts into reviewable changes. Adjacent removals and additions
+ * form one change (a replacement); both ends of a move form one change, so
+ * accepting it can never duplicate or drop the moved text.
+ */
+export const indexChanges = (parts: DiffPart[]): ChangeIndex => {
+  const changes: ReviewChange[] = [];
+  const changeOfPart: (number | null)[] = [];
+  const lastPartOfChange: number[] = [];
+  const locations: ChangeLocation[] = [];
+  const moves = new Map<number, number>();
+  let context = '';
+  let openChange: number | null = null;
+  let originalOffset = 0;
+  let modifiedOffset = 0;
+
+  const createChange = (change: ReviewChange) => {
+    locations.push({ original: [originalOffset, originalOffset], modified: [modifiedOffset, modifiedOffset] });
+    return changes.push(change) - 1;
+  };
+
+  parts.forEach((part, index) => {
+    if (!part.added && !part.removed) {
+      changeOfPart.push(null);
+      context = (context + part.value).slice(-CONTEXT_LENGTH);
+      openChange = null;
+      originalOffset += part.value.length;
+      modifiedOffset += (part.newValue ?? part.value).length;
+      return;
+    }
+
+    let change: number;
+    if (part.moved && part.moveId !== undefined) {
+      const existing = moves.get(part.moveId);
+      if (existing === undefined) {
+        change = createChange({ removed: '', added: '', context, moved: true });
+        moves.set(part.moveId, change);
+      } else {
+        change = existing;
+      }
+      openChange = null;
+    } else {
+      if (openChange === null) openChange = createChange({ removed: '', added: '', context });
+      change = openChange;
+    }
+
+    // A move's two ends lie apart, so each side's range starts at its first part
+    const side = part.removed ? 'original' : 'modified';
+    const range = locations[change][side];
+    const offset = part.removed ? originalOffset : modifiedOffset;
+    if ((part.removed ? changes[change].removed : changes[change].added) === '') range[0] = offset;
+    range[1] = offset + part.value.length;
+
+    if (part.removed) {
+      changes[change].removed += part.value;
+      originalOffset += part.value.length;
+    } else {
+      changes[change].added += part.value;
+      modifiedOffset += part.value.length;
+    }
+    changeOfPart.push(change);
+    lastPartOfChange[change] = index;
+  });
+
+  return { changes, changeOfPart, lastPartOfChange, locations };
+};
+
+/**
+ * The original text with every accepted change applied. Pending and rejected
+ * changes leave the original text in place.
+ */
+export const applyDecisions = (
+  parts: DiffPart[],
+  changeOfPart: (number | null)[],
+  decisions: Record<number, ChangeDecision>
+): string =>
+  parts
+    .map((part, index) => {
+      const change = changeOfPart[index];
+      if (change === null) return part.value;
+      const accepted = decisions[change] === 'accepted';
+      return !!part.added === accepted ? part.value : '';
+    })
+    .join('');
@@ -0,0 +1,90 @@
+import { DiffPart, SearchFilter, SearchQuery } from '../types';
+import { DiffSide, sideText } from './partSlice';
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Compiles a search into a global RegExp; returns null for an empty search
+ * and the syntax error message for an invalid regular expression.
+ */
+export const compileSearch = (query: SearchQuery): RegExp | string | null => {
+  if (!query.text) return null;
+  try {
+    return new RegExp(query.isRegex ? query.text : escapeRegExp(query.text), query.caseSensitive ? 'g' : 'gi');
+  } catch (e: any) {
+    return e.message || 'Invalid regular expression.';
+  }
+};
+
+// Whether the filter looks inside this part
+export const matchesFilter = (part: DiffPart, filter: SearchFilter = 'all') => {
+  switch (filter) {
+    case 'added':
+      return !!part.added;
+    case 'removed':
+      return !!part.removed;
+    case 'unchanged':
+      return !part.added && !part.removed;
+    default:
+      return true;
+  }
+};
+
+/**
+ * Character ranges [start, end) of the matches in a text. Zero-length
+ * matches are skipped, since there is nothing to highlight.
+ */
+export const findMatches = (text: string, regex: RegExp): [number, number][] => {
+  const matches: [number, number][] = [];
+  for (const match of text.matchAll(regex)) {
+    if (match[0]) matches.push([match.index!, match.index! + match[0].length]);
+  }
+  return matches;
+};
+
+// A search match in the text of one side, cut at the parts it spans
+export interface SideMatch {
+  side: DiffSide;
+  pieces: { index: number; start: number; end: number }[]; // Characters [start, end) of each part, as it reads on the side
+  isRepeat: boolean; // Only in unchanged text of the original, which the modified side already matches
+}
+
+/**
+ * Matches of a search in the whole text of each side, so a phrase running
+ * across several parts is found. A filter searches the runs of consecutive
+ * parts it looks inside.
+ */
+export const findSideMatches = (parts: DiffPart[], regex: RegExp, filter: SearchFilter = 'all'): SideMatch[] => {
+  const matches: SideMatch[] = [];
+  for (const side of ['original', 'modified'] as DiffSide[]) {
+    let text = '';
+    let run: { index: number; start: number }[] = []; // Where each part of the run starts in its text
+
+    const flush = () => {
+      for (const [start, end] of findMatches(text, regex)) {
+        const pieces = run.flatMap(({ index, start: partStart }, k) => {
+          const partEnd = k + 1 < run.length ? run[k + 1].start : text.length;
+          const from = Math.max(start, partStart);
+          const to = Math.min(end, partEnd);
+          return from < to ? [{ index, start: from - partStart, end: to - partStart }] : [];
+        });
+        const isRepeat = side === 'original' && pieces.every(({ index }) => !parts[index].removed);
+        matches.push({ side, pieces, isRepeat });
+      }
+      text = '';
+      run = [];
+    };
+
+    parts.forEach((part, index) => {
+      if (side === 'original' ? part.added : part.removed) return; // Not on this side
+      if (!matchesFilter(part, filter)) {
+        flush();
+        return;
+      }
+      run.push({ index, start: text.length });
+      text += sideText(part, side);
+    });
+    flush();
+  }
+  return matches;
+};
@@ -0,0 +1,148 @@
+import { DiffPart, HunkItem, SplitLine, SplitRow } from '../types';
+import { splitReplacement } from './replacements';
+import { DiffSide, sideText, slicePart } from './partSlice';
+
+interface PendingLine extends SplitLine {
+  anchor: boolean; // Holds unchanged text, so it has a counterpart on the other side
+}
+
+interface SideState {
+  number: number;
+  current: PendingLine | null;
+  lines: PendingLine[]; // Closed since the last point where both sides broke a line together
+}
+
+const currentLine = (state: SideState) => {
+  if (!state.current) state.current = { number: state.number, items: [], anchor: false };
+  return state.current;
+};
+
+const closeLine = (state: SideState, changed: boolean) => {
+  const line = currentLine(state);
+  if (changed) line.changed = true;
+  state.lines.push(line);
+  state.current = null;
+  state.number++;
+};
+
+const toLine = ({ anchor: _, ...line }: PendingLine): SplitLine => line;
+
+// Pairs lines top-down, padding the shorter side with fillers
+const zipLines = (rows: SplitRow[], original: PendingLine[], modified: PendingLine[]) => {
+  for (let i = 0; i < Math.max(original.length, modified.length); i++) {
+    rows.push({
+      original: original[i] ? toLine(original[i]) : null,
+      modified: modified[i] ? toLine(modified[i]) : null,
+    });
+  }
+};
+
+/**
+ * Aligns the lines both sides closed since they last broke a line together.
+ * Lines holding unchanged text are paired in order; the purely removed or
+ * added lines between them are paired top-down, with fillers for the rest.
+ */
+const alignLines = (rows: SplitRow[], original: PendingLine[], modified: PendingLine[]) => {
+  const originalAnchors = original.flatMap((line, i) => (line.anchor ? [i] : []));
+  const modifiedAnchors = modified.flatMap((line, i) => (line.anchor ? [i] : []));
+  let o = 0;
+  let m = 0;
+  for (let k = 0; k < Math.min(originalAnchors.length, modifiedAnchors.length); k++) {
+    zipLines(rows, original.slice(o, originalAnchors[k]), modified.slice(m, modifiedAnchors[k]));
+    zipLines(rows, [original[originalAnchors[k]]], [modified[modifiedAnchors[k]]]);
+    o = originalAnchors[k] + 1;
+    m = modifiedAnchors[k] + 1;
+  }
+  zipLines(rows, original.slice(o), modified.slice(m));
+};
+
+/**
+ * Lays out diff items as rows of the split view: each side broken into
+ * numbered lines, with the lines of both sides aligned and filler rows where
+ * one side has lines the other does not. `firstLine` numbers the line the
+ * items start on, so hunks after collapsed text keep their real numbers.
+ */
+export const buildSplitRows = (items: HunkItem[], firstLine: Record<DiffSide, number> = { original: 1, modified: 1 }): SplitRow[] => {
+  const rows: SplitRow[] = [];
+  const states: Record<DiffSide, SideState> = {
+    original: { number: firstLine.original, current: null, lines: [] },
+    modified: { number: firstLine.modified, current: null, lines: [] },
+  };
+
+  const flush = () => {
+    alignLines(rows, states.original.lines, states.modified.lines);
+    states.original.lines = [];
+    states.modified.lines = [];
+  };
+
+  // Adds a part's text to one side's lines, breaking at each line break
+  const feed = (side: DiffSide, part: DiffPart, index: number) => {
+    const state = states[side];
+    const text = sideText(part, side);
+    const changed = !!(part.added || part.removed);
+    const segments = changed && part.inner ? splitReplacement(part) : null;
+    let start = 0;
+    while (start <= text.length) {
+      const lineBreak = text.indexOf('\n', start);
+      const end = lineBreak === -1 ? text.length : lineBreak;
+      if (end > start) {
+        const line = currentLine(state);
+        line.items.push({ part: slicePart(part, side, start, end, segments), index });
+        if (changed) line.changed = true;
+        else if (text.slice(start, end).trim()) line.anchor = true;
+      }
+      if (lineBreak === -1) break;
+      closeLine(state, changed);
+      start = lineBreak + 1;
+    }
+  };
+
+  for (const { part, index } of items) {
+    if (part.removed) {
+      feed('original', part, index);
+    } else if (part.added) {
+      feed('modified', part, index);
+    } else if (part.newValue !== undefined && part.newValue !== part.value) {
+      // Line breaks may differ between the sides, so they do not line up here
+      feed('original', part, index);
+      feed('modified', part, index);
+    } else {
+      // Unchanged: every line break ends a line on both sides at once
+      const lines = part.value.split('\n');
+      lines.forEach((text, i) => {
+        if (i > 0) {
+          closeLine(states.original, false);
+          closeLine(states.modified, false);
+          flush();
+        }
+        if (!text) return;
+        for (const side of ['original', 'modified'] as DiffSide[]) {
+          const line = currentLine(states[side]);
+          line.items.push({ part: { value: text }, index });
+          if (text.trim()) line.anchor = true;
+        }
+      });
+    }
+  }
+
+  for (const state of [states.original, states.modified]) {
+    if (state.current) {
+      state.lines.push(state.current);
+      state.current = null;
+    }
+  }
+  flush();
+  return rows;
+};
+
+// Line breaks in the items on each side, to number the lines after them
+export const countLineBreaks = (items: HunkItem[]): Record<DiffSide, number> => {
+  const count = (text: string) => text.split('\n').length - 1;
+  return items.reduce(
+    (counts, { part }) => ({
+      original: counts.original + (part.added ? 0 : count(part.value)),
+      modified: counts.modified + (part.removed ? 0 : count(sideText(part, 'modified'))),
+    }),
+    { original: 0, modified: 0 }
+  );
+};
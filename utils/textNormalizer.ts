@@ -0,0 +1,95 @@
+import { NormalizationOptions } from '../types';
+
+// CJK punctuation without a compatibility decomposition to an ASCII form
+const CJK_PUNCTUATION_MAP: Record<string, string> = {
+  '\u3002': '.', // 。
+  '\u3001': ',', // 、
+  '\u201c': '"', // “
+  '\u201d': '"', // ”
+  '\u300c': '"', // 「
+  '\u300d': '"', // 」
+  '\u2018': "'", // ‘
+  '\u2019': "'", // ’
+  '\u300e': "'", // 『
+  '\u300f': "'", // 』
+  '\u3010': '[', // 【
+  '\u3011': ']', // 】
+  '\u300a': '<', // 《
+  '\u300b': '>', // 》
+};
+
+const FULL_WIDTH_ASCII = /[\uff01-\uff5e]/g;
+const HALF_WIDTH_KANA = /[\uff61-\uff9f]+/g;
+const CJK_PUNCTUATION = /[\u3001\u3002\u201c\u201d\u300c\u300d\u2018\u2019\u300e\u300f\u3010\u3011\u300a\u300b]/g;
+const WHITESPACE = /\s+/g;
+const PUNCTUATION = /\p{P}+/gu;
+
+/**
+ * Folds full-width and half-width forms together:
+ * - Full-width ASCII (Ａ, １, ，) -> ASCII (A, 1, ,)
+ * - Ideographic space -> space
+ * - Half-width katakana (ｶﾀｶﾅ) -> full-width katakana (カタカナ)
+ * - CJK punctuation (。、「」) -> ASCII equivalents
+ */
+const foldWidth = (text: string): string =>
+  text
+    .replace(FULL_WIDTH_ASCII, ch => String.fromCharCode(ch.charCodeAt(0) - 0xfee0))
+    .replace(/\u3000/g, ' ')
+    .replace(HALF_WIDTH_KANA, kana => kana.normalize('NFKC'))
+    .replace(CJK_PUNCTUATION, ch => CJK_PUNCTUATION_MAP[ch]);
+
+export const hasNormalization = (options: NormalizationOptions = {}): boolean =>
+  !!(options.ignoreWhitespace || options.ignoreCase || options.ignorePunctuation || options.ignoreWidth);
+
+/**
+ * Builds the key a token is compared by. Two tokens with the same key are
+ * treated as unchanged, even if their text differs.
+ */
+export const createComparisonKey = (options: NormalizationOptions = {}) => (token: string): string => {
+  let key = token;
+  if (options.ignoreWidth) key = foldWidth(key);
+  if (options.ignoreCase) key = key.toLowerCase();
+  if (options.ignorePunctuation) key = key.replace(PUNCTUATION, '');
+  if (options.ignoreWhitespace) key = key.replace(WHITESPACE, '');
+  return key;
+};
+
+/**
+ * Pairs tokens with their comparison keys, normalizing the given base keys
+ * (the tokens themselves by default). Tokens whose key is empty (e.g. a run
+ * of spaces when whitespace is ignored) are folded into the preceding token,
+ * or the following one at the start of the text, so inserting or removing
+ * them never shows up as a change.
+ */
+export const normalizeTokens = (
+  tokens: string[],
+  options: NormalizationOptions = {},
+  baseKeys: string[] = tokens
+): { tokens: string[]; keys: string[] } => {
+  if (!hasNormalization(options)) return { tokens, keys: baseKeys };
+
+  const toKey = createComparisonKey(options);
+  const units: string[] = [];
+  const keys: string[] = [];
+  let leading = '';
+
+  for (let i = 0; i < tokens.length; i++) {
+    const key = toKey(baseKeys[i]);
+    if (key) {
+      units.push(leading + tokens[i]);
+      keys.push(key);
+      leading = '';
+    } else if (units.length > 0) {
+      units[units.length - 1] += tokens[i];
+    } else {
+      leading += tokens[i];
+    }
+  }
+  // Text made only of ignorable tokens
+  if (leading) {
+    units.push(leading);
+    keys.push('');
+  }
+
+  return { tokens: units, keys };
+};
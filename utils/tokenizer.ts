@@ -0,0 +1,127 @@
+import { DiffGranularity } from '../types';
+
+// Han ideographs and Japanese kana are diffed per character; other scripts by word.
+const CJK_CHAR = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}]/u;
+const EMOJI = /\p{Extended_Pictographic}|\p{Regional_Indicator}/u;
+const WHITESPACE = /^\s+$/;
+
+// Fallbacks for engines without Intl.Segmenter
+const FALLBACK_GRAPHEME_REGEX = /\p{Regional_Indicator}{1,2}|\P{M}(?:\p{M}|\p{Emoji_Modifier}|\u200D\P{M})*|\p{M}+/gu;
+const FALLBACK_WORD_REGEX = new RegExp([
+  // 1. Han / Hiragana / Katakana - match individually (with combining marks)
+  String.raw`[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}]\p{M}*`,
+  // 2. Flags (regional indicator pairs)
+  String.raw`\p{Regional_Indicator}{1,2}`,
+  // 3. Emoji, including modifiers and ZWJ sequences
+  String.raw`\p{Extended_Pictographic}(?:\p{M}|\p{Emoji_Modifier}|\u200D\p{Extended_Pictographic})*`,
+  // 4. Words in any other script (Latin incl. accents, Cyrillic, Hangul, ...) - grouped
+  String.raw`(?:(?![\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}])[\p{L}\p{M}\p{N}\p{Pc}])+`,
+  // 5. Whitespace sequences - grouped
+  String.raw`\s+`,
+  // 6. Punctuation and other symbols - grouped
+  String.raw`(?:(?!\p{Extended_Pictographic}|\p{Regional_Indicator})[^\p{L}\p{M}\p{N}\p{Pc}\s])+`,
+].join('|'), 'gu');
+
+const segmenters = new Map<'grapheme' | 'word', Intl.Segmenter | null>();
+
+const getSegmenter = (granularity: 'grapheme' | 'word'): Intl.Segmenter | null => {
+  if (!segmenters.has(granularity)) {
+    const supported = typeof Intl !== 'undefined' && typeof Intl.Segmenter === 'function';
+    segmenters.set(granularity, supported ? new Intl.Segmenter(undefined, { granularity }) : null);
+  }
+  return segmenters.get(granularity) ?? null;
+};
+
+/**
+ * Splits text into user-perceived characters (grapheme clusters), so accented
+ * letters, emoji sequences and flags are never cut apart.
+ */
+const tokenizeGraphemes = (text: string): string[] => {
+  const segmenter = getSegmenter('grapheme');
+  if (!segmenter) return text.match(FALLBACK_GRAPHEME_REGEX) || [];
+  return Array.from(segmenter.segment(text), s => s.segment);
+};
+
+/**
+ * Tokenizes text into meaningful units for diffing.
+ * - Words in any script (Latin incl. accents, Cyrillic, Hangul, ...): Grouped (e.g., "café", "привет").
+ * - Chinese/Japanese (Han, Hiragana, Katakana): Split individually (e.g., "你", "好", "か").
+ * - Emoji: One token per emoji, including ZWJ sequences and flags.
+ * - Whitespace: Grouped (preserves formatting).
+ * - Punctuation: Grouped.
+ */
+const tokenizeWords = (text: string): string[] => {
+  const segmenter = getSegmenter('word');
+  if (!segmenter) return text.match(FALLBACK_WORD_REGEX) || [];
+
+  const tokens: string[] = [];
+  // Adjacent whitespace/punctuation segments are merged, matching the fallback regex
+  let pending = '';
+  let pendingKind: 'space' | 'punct' | null = null;
+  const flush = () => {
+    if (pending) tokens.push(pending);
+    pending = '';
+    pendingKind = null;
+  };
+
+  for (const { segment, isWordLike } of segmenter.segment(text)) {
+    if (isWordLike) {
+      flush();
+      if (CJK_CHAR.test(segment)) tokens.push(...tokenizeGraphemes(segment));
+      else tokens.push(segment);
+    } else if (EMOJI.test(segment)) {
+      flush();
+      tokens.push(segment);
+    } else {
+      const kind = WHITESPACE.test(segment) ? 'space' : 'punct';
+      if (kind !== pendingKind) flush();
+      pending += segment;
+      pendingKind = kind;
+    }
+  }
+  flush();
+  return tokens;
+};
+
+/**
+ * Splits text into sentences, each carrying its trailing whitespace.
+ * - Latin terminators (. ! ?) only end a sentence before whitespace, so "3.14" stays whole.
+ * - CJK terminators (。！？…) end a sentence immediately.
+ * - A newline always ends a sentence.
+ */
+const tokenizeSentences = (text: string): string[] => {
+  const regex = /[^\n]*?(?:[.!?]+["'\u201d\u2019)\]]*(?=\s|$)|[\u3002\uff01\uff1f\u2026]+["'\u201d\u2019\u300d\u300f)\]]*|(?=\n)|$)[ \t]*\n*/g;
+  return (text.match(regex) || []).filter(Boolean);
+};
+
+/**
+ * Splits text into lines, each carrying its trailing newline.
+ */
+const tokenizeLines = (text: string): string[] => {
+  return text.match(/[^\n]*\n|[^\n]+/g) || [];
+};
+
+/**
+ * Splits text into paragraphs separated by blank lines. The separating
+ * whitespace becomes its own token so paragraph edits do not absorb it.
+ */
+const tokenizeParagraphs = (text: string): string[] => {
+  return text.match(/\n\s*\n|[\s\S]+?(?=\n\s*\n|$)/g) || [];
+};
+
+const TOKENIZERS: Record<DiffGranularity, (text: string) => string[]> = {
+  char: tokenizeGraphemes,
+  word: tokenizeWords,
+  sentence: tokenizeSentences,
+  line: tokenizeLines,
+  paragraph: tokenizeParagraphs,
+};
+
+/**
+ * Splits text into diff units of the given granularity. Lossless: joining
+ * the tokens always yields the input text.
+ */
+export const tokenize = (text: string, granularity: DiffGranularity): string[] => {
+  if (!text) return [];
+  return TOKENIZERS[granularity](text);
+};